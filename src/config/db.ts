@@ -1,7 +1,14 @@
 import mongoose from "mongoose";
 import dotenv from "dotenv";
+import { supportsTransactions } from "../utils/transaction";
 dotenv.config();
 
+/**
+ * Connect to MongoDB. Deleting events and matches and editing finalized
+ * matches update several collections together, which runs in a transaction
+ * only on a replica set or a sharded cluster - a standalone server (typical
+ * for local development) falls back to ordered writes without rollback
+ */
 const connectDB = async (): Promise<void> => {
   try {
     const mongoURI = process.env.MONGODB_URI;
@@ -13,6 +20,12 @@ const connectDB = async (): Promise<void> => {
     const connect = await mongoose.connect(mongoURI);
 
     console.log(`MongoDB Connected: ${connect.connection.host}`);
+
+    if (!(await supportsTransactions())) {
+      console.warn(
+        "MongoDB is not a replica set - multi-document writes will run without transactions"
+      );
+    }
   } catch (error) {
     console.error(
       `Error connecting to MongoDB: ${
@@ -0,0 +1,44 @@
+import dotenv from "dotenv";
+dotenv.config();
+
+// סוד ברירת המחדל מותר רק בסביבת פיתוח
+const DEVELOPMENT_SECRET = "secret";
+
+// טוקן גישה קצר - הסשן מתחדש באמצעות טוקן הרענון
+export const ACCESS_TOKEN_EXPIRES_IN = process.env.JWT_EXPIRES_IN || "15m";
+export const REFRESH_TOKEN_TTL_DAYS =
+  Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+/**
+ * Get the secret used to sign and verify access tokens
+ * @returns JWT secret
+ */
+export const getJwtSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+
+  if (!secret) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("JWT_SECRET is not defined in environment variables");
+    }
+    return DEVELOPMENT_SECRET;
+  }
+
+  return secret;
+};
+
+/**
+ * Refuse to start the server when the auth configuration is unsafe for
+ * production
+ */
+export const assertAuthConfig = (): void => {
+  try {
+    getJwtSecret();
+  } catch (error) {
+    console.error(
+      `Invalid auth configuration: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+    process.exit(1);
+  }
+};
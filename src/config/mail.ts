@@ -0,0 +1,73 @@
+import dotenv from "dotenv";
+dotenv.config();
+
+const MAIL_TRANSPORTS = ["console", "file", "http"] as const;
+
+export type MailTransportName = (typeof MAIL_TRANSPORTS)[number];
+
+export interface MailConfig {
+  transport: MailTransportName;
+  filePath?: string;
+  apiUrl?: string;
+  apiKey?: string;
+  from?: string;
+}
+
+/**
+ * Read the mail transport configuration. The console and file transports
+ * keep the mails on the server, so production requires the http transport
+ * of a real mail provider
+ * @returns Mail configuration
+ */
+export const getMailConfig = (): MailConfig => {
+  const isProduction = process.env.NODE_ENV === "production";
+  const transport =
+    process.env.MAIL_TRANSPORT || (isProduction ? "http" : "console");
+
+  if (!MAIL_TRANSPORTS.includes(transport as MailTransportName)) {
+    throw new Error(
+      `MAIL_TRANSPORT must be one of: ${MAIL_TRANSPORTS.join(", ")}`
+    );
+  }
+  if (isProduction && transport !== "http") {
+    throw new Error(
+      `MAIL_TRANSPORT "${transport}" does not deliver mails and cannot be used in production`
+    );
+  }
+
+  const config: MailConfig = {
+    transport: transport as MailTransportName,
+    filePath: process.env.MAIL_FILE_PATH,
+    apiUrl: process.env.MAIL_API_URL,
+    apiKey: process.env.MAIL_API_KEY,
+    from: process.env.MAIL_FROM,
+  };
+
+  if (
+    config.transport === "http" &&
+    (!config.apiUrl || !config.apiKey || !config.from)
+  ) {
+    throw new Error(
+      "MAIL_API_URL, MAIL_API_KEY and MAIL_FROM are required by the http mail transport"
+    );
+  }
+
+  return config;
+};
+
+/**
+ * Refuse to start the server when no mail transport that delivers mails
+ * is configured for production
+ */
+export const assertMailConfig = (): void => {
+  try {
+    getMailConfig();
+  } catch (error) {
+    console.error(
+      `Invalid mail configuration: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+    process.exit(1);
+  }
+};
@@ -1,7 +1,8 @@
 import { Request, Response, NextFunction } from "express";
 import { AppError } from "../middleware/errorMiddleware";
-import { clubService } from "../services/clubService";
-import { UserRoleEnum } from "../types/enums";
+import { clubService, ClubListQuery } from "../services/clubService";
+import { geoService, NearbyQuery } from "../services/geoService";
+import { ClubMemberRoleEnum, UserRoleEnum } from "../types/enums";
 
 // Interface for authenticated request
 interface AuthenticatedRequest extends Request {
@@ -11,8 +12,8 @@ interface AuthenticatedRequest extends Request {
   };
 }
 
-// @desc    Get all clubs
-// @route   GET /api/clubs
+// @desc    Get clubs (filtered, searched, sorted and paginated)
+// @route   GET /api/clubs?search=&sportCategory=&city=&country=&status=&visibility=&hasFreeSpots=&sort=&lat=&lng=&page=&limit=
 // @access  Private
 export const getAllClubs = async (
   req: AuthenticatedRequest,
@@ -20,12 +21,20 @@ export const getAllClubs = async (
   next: NextFunction
 ) => {
   try {
-    const clubs = await clubService.getAllClubs();
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const { data, pagination } = await clubService.getAllClubs(
+      req.user,
+      req.query as ClubListQuery
+    );
 
     res.status(200).json({
       success: true,
-      count: clubs.length,
-      data: clubs,
+      count: data.length,
+      data,
+      pagination,
     });
   } catch (error) {
     next(error);
@@ -41,7 +50,11 @@ export const getClubById = async (
   next: NextFunction
 ) => {
   try {
-    const club = await clubService.getClubById(req.params.id);
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const club = await clubService.getClubById(req.params.id, req.user);
 
     if (!club) {
       return next(AppError.notFound("Club not found"));
@@ -69,14 +82,9 @@ export const createClub = async (
       return next(AppError.unauthorized("User not authenticated"));
     }
 
-    // הוספת מזהה המשתמש כמנהל
-    const clubData = {
-      ...req.body,
-      admin: req.user.id,
-    };
-
+    // המשתמש היוצר מוגדר כמנהל הקבוצה בשירות
     const club = await clubService.createClub(
-      clubData,
+      req.body,
       req.user.id,
       req.user.role
     );
@@ -328,3 +336,426 @@ export const rejectJoinRequest = async (
     next(error);
   }
 };
+
+// @desc    Get open public clubs near the connected user (or near lat/lng)
+// @route   GET /api/clubs/near?lat=&lng=&radius=&sportCategory=&limit=
+// @access  Private
+export const getNearbyClubs = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const clubs = await geoService.findNearbyClubs(
+      req.user.id,
+      req.query as NearbyQuery
+    );
+
+    res.status(200).json({
+      success: true,
+      count: clubs.length,
+      data: clubs,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Promote a club member to captain
+// @route   POST /api/clubs/promoteCaptain/:clubId/:userId
+// @access  Private (Club Admin)
+export const promoteCaptain = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const club = await clubService.promoteCaptain(
+      req.params.clubId,
+      req.params.userId,
+      req.user.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "Member promoted to captain successfully",
+      data: club,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Demote a captain to a regular member
+// @route   POST /api/clubs/demoteCaptain/:clubId/:userId
+// @access  Private (Club Admin)
+export const demoteCaptain = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const club = await clubService.demoteCaptain(
+      req.params.clubId,
+      req.params.userId,
+      req.user.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "Captain demoted successfully",
+      data: club,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Transfer the club ownership to another member
+// @route   POST /api/clubs/transferOwnership/:clubId/:userId
+// @access  Private (Club Admin)
+export const transferOwnership = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const club = await clubService.transferOwnership(
+      req.params.clubId,
+      req.params.userId,
+      req.user.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "Club ownership transferred successfully",
+      data: club,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Remove a member from the club, optionally banning them
+// @route   POST /api/clubs/removeMember/:clubId/:userId
+// @access  Private (Club Admin)
+export const removeMember = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const ban = req.body?.ban === true;
+
+    const club = await clubService.removeMember(
+      req.params.clubId,
+      req.params.userId,
+      req.user.id,
+      ban
+    );
+
+    res.status(200).json({
+      success: true,
+      message: ban
+        ? "Member removed and banned successfully"
+        : "Member removed successfully",
+      data: club,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Lift the ban of a user from the club
+// @route   POST /api/clubs/unbanMember/:clubId/:userId
+// @access  Private (Club Admin)
+export const unbanMember = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const club = await clubService.unbanMember(
+      req.params.clubId,
+      req.params.userId,
+      req.user.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "User unbanned successfully",
+      data: club,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Invite a user to join the club
+// @route   POST /api/clubs/invite/:clubId/:userId
+// @access  Private (Club Admin/Captain)
+export const inviteUser = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    await clubService.inviteUser(
+      req.params.clubId,
+      req.params.userId,
+      req.user.id,
+      req.body?.role as ClubMemberRoleEnum | undefined
+    );
+
+    res.status(201).json({
+      success: true,
+      message: "Invitation sent successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Cancel an invitation
+// @route   POST /api/clubs/cancelInvitation/:clubId/:userId
+// @access  Private (Club Admin/Captain)
+export const cancelInvitation = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    await clubService.cancelInvitation(
+      req.params.clubId,
+      req.params.userId,
+      req.user.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "Invitation cancelled successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get the club invitations of the connected user
+// @route   GET /api/clubs/invitations
+// @access  Private
+export const getMyInvitations = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const clubs = await clubService.getUserInvitations(req.user.id);
+
+    res.status(200).json({
+      success: true,
+      count: clubs.length,
+      data: clubs,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Accept an invitation and join the club
+// @route   POST /api/clubs/acceptInvitation/:clubId
+// @access  Private
+export const acceptInvitation = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    await clubService.acceptInvitation(req.params.clubId, req.user.id);
+
+    res.status(200).json({
+      success: true,
+      message: "Invitation accepted successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Decline an invitation
+// @route   POST /api/clubs/declineInvitation/:clubId
+// @access  Private
+export const declineInvitation = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    await clubService.declineInvitation(req.params.clubId, req.user.id);
+
+    res.status(200).json({
+      success: true,
+      message: "Invitation declined successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Create a shareable invite code for the club
+// @route   POST /api/clubs/inviteCodes/:clubId
+// @access  Private (Club Admin/Captain)
+export const createInviteCode = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const { expiresInHours, maxUses, role } = req.body || {};
+    const inviteCode = await clubService.createInviteCode(
+      req.params.clubId,
+      req.user.id,
+      { expiresInHours, maxUses, role }
+    );
+
+    // קישור לשיתוף כאשר כתובת אפליקציית הלקוח מוגדרת
+    const link = process.env.CLIENT_URL
+      ? `${process.env.CLIENT_URL}/join/${inviteCode.code}`
+      : undefined;
+
+    res.status(201).json({
+      success: true,
+      data: { ...inviteCode, link },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get the active invite codes of the club
+// @route   GET /api/clubs/inviteCodes/:clubId
+// @access  Private (Club Admin/Captain)
+export const getInviteCodes = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const inviteCodes = await clubService.getInviteCodes(
+      req.params.clubId,
+      req.user.id
+    );
+
+    res.status(200).json({
+      success: true,
+      count: inviteCodes.length,
+      data: inviteCodes,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Revoke an invite code
+// @route   DELETE /api/clubs/inviteCodes/:clubId/:code
+// @access  Private (Club Admin/Captain)
+export const revokeInviteCode = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    await clubService.revokeInviteCode(
+      req.params.clubId,
+      req.params.code,
+      req.user.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "Invite code revoked successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Join a club using an invite code
+// @route   POST /api/clubs/joinByCode/:code
+// @access  Private
+export const joinByCode = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const club = await clubService.joinByCode(req.params.code, req.user);
+
+    res.status(200).json({
+      success: true,
+      message: "Joined the club successfully",
+      data: club,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
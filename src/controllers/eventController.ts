@@ -0,0 +1,557 @@
+import { Request, Response, NextFunction } from "express";
+import { AppError } from "../middleware/errorMiddleware";
+import { eventService } from "../services/eventService";
+import { teamService } from "../services/teamService";
+import { geoService, NearbyQuery } from "../services/geoService";
+import { eventSeriesService } from "../services/eventSeriesService";
+import { UserRoleEnum, EventStatusEnum } from "../types/enums";
+
+// Interface for authenticated request
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    role: UserRoleEnum;
+  };
+}
+
+// @desc    Get upcoming events of the connected user's clubs
+// @route   GET /api/events/upcoming
+// @access  Private
+export const getUpcomingEvents = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const events = await eventService.getUpcomingEvents(
+      req.user.id,
+      req.query.clubId as string | undefined
+    );
+
+    res.status(200).json({
+      success: true,
+      count: events.length,
+      data: events,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get events by club
+// @route   GET /api/events/byClub/:clubId
+// @access  Private (Club Members)
+export const getEventsByClub = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const events = await eventService.getEventsByClub(
+      req.params.clubId,
+      req.user.id
+    );
+
+    res.status(200).json({
+      success: true,
+      count: events.length,
+      data: events,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get event by ID
+// @route   GET /api/events/:id
+// @access  Private (Club Members)
+export const getEventById = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const event = await eventService.getEventById(req.params.id, req.user.id);
+
+    if (!event) {
+      return next(
+        AppError.notFound(
+          "Event not found or you are not a member of this event's club"
+        )
+      );
+    }
+
+    res.status(200).json({
+      success: true,
+      data: event,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Create a new event
+// @route   POST /api/events
+// @access  Private (Club Admin/Captain)
+export const createEvent = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const event = await eventService.createEvent({ ...req.body }, req.user.id);
+
+    res.status(201).json({
+      success: true,
+      data: event,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Update event
+// @route   PUT /api/events/:id
+// @access  Private (Club Admin/Captain)
+export const updateEvent = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const event = await eventService.updateEvent(
+      req.params.id,
+      { ...req.body },
+      req.user.id
+    );
+
+    if (!event) {
+      return next(
+        AppError.notFound(
+          "Event not found or you are not authorized to update this event"
+        )
+      );
+    }
+
+    res.status(200).json({
+      success: true,
+      data: event,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Delete event
+// @route   DELETE /api/events/:id
+// @access  Private (Club Admin/Captain)
+export const deleteEvent = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const result = await eventService.deleteEvent(req.params.id, req.user.id);
+
+    if (!result) {
+      return next(
+        AppError.notFound(
+          "Event not found or you are not authorized to delete this event"
+        )
+      );
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Event deleted successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Register to an event (or join its waitlist when full)
+// @route   POST /api/events/register/:eventId
+// @access  Private (Club Members)
+export const registerToEvent = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const result = await eventService.registerToEvent(
+      req.params.eventId,
+      req.user.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message:
+        result.status === "registered"
+          ? "Registered to event successfully"
+          : `Event is full, you were added to the waitlist (position ${result.position})`,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Withdraw from an event or its waitlist
+// @route   POST /api/events/withdraw/:eventId
+// @access  Private
+export const withdrawFromEvent = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const result = await eventService.withdrawFromEvent(
+      req.params.eventId,
+      req.user.id
+    );
+
+    if (!result) {
+      return next(
+        AppError.badRequest(
+          "You are not registered or on the waitlist for this event"
+        )
+      );
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Withdrawn from event successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Generate balanced teams (preview, reshuffle or save)
+// @route   POST /api/events/teams/generate/:eventId
+// @access  Private (Club Admin/Captain)
+export const generateTeams = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const { teamsCount, shuffle, preview, ratingSource } = req.body;
+
+    const result = await teamService.generateTeams(
+      req.params.eventId,
+      req.user.id,
+      { teamsCount, shuffle, preview, ratingSource }
+    );
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Lock or unlock event teams
+// @route   POST /api/events/teams/lock/:eventId
+// @access  Private (Club Admin/Captain)
+export const lockTeams = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const locked = req.body.locked !== false;
+
+    const event = await teamService.setTeamsLocked(
+      req.params.eventId,
+      req.user.id,
+      locked
+    );
+
+    res.status(200).json({
+      success: true,
+      message: locked
+        ? "Teams locked successfully"
+        : "Teams unlocked successfully",
+      data: event,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Swap two players between teams
+// @route   POST /api/events/teams/swap/:eventId
+// @access  Private (Club Admin/Captain)
+export const swapTeamPlayers = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const { firstPlayerId, secondPlayerId } = req.body;
+    const event = await teamService.swapPlayers(
+      req.params.eventId,
+      req.user.id,
+      firstPlayerId,
+      secondPlayerId
+    );
+
+    res.status(200).json({
+      success: true,
+      data: event,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Change event status
+// @route   PUT /api/events/status/:eventId
+// @access  Private (Club Admin/Captain)
+export const changeEventStatus = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const { status, reason } = req.body;
+
+    const event = await eventService.changeEventStatus(
+      req.params.eventId,
+      status as EventStatusEnum,
+      req.user.id,
+      reason
+    );
+
+    if (!event) {
+      return next(
+        AppError.notFound(
+          "Event not found or you are not authorized to update this event"
+        )
+      );
+    }
+
+    res.status(200).json({
+      success: true,
+      data: event,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Create a recurring event series
+// @route   POST /api/events/series
+// @access  Private (Club Admin/Captain)
+export const createEventSeries = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const { series, events } = await eventSeriesService.createSeries(
+      { ...req.body },
+      req.user.id
+    );
+
+    res.status(201).json({
+      success: true,
+      count: events.length,
+      data: {
+        series,
+        events,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get a recurring event series with its events
+// @route   GET /api/events/series/:seriesId
+// @access  Private (Club Members)
+export const getEventSeries = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const result = await eventSeriesService.getSeries(
+      req.params.seriesId,
+      req.user.id
+    );
+
+    if (!result) {
+      return next(
+        AppError.notFound(
+          "Series not found or you are not a member of this series' club"
+        )
+      );
+    }
+
+    res.status(200).json({
+      success: true,
+      count: result.events.length,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Update one occurrence, or it and all following occurrences
+// @route   PUT /api/events/series/occurrence/:eventId
+// @access  Private (Club Admin/Captain)
+export const updateSeriesOccurrence = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const { scope, ...updateData } = req.body;
+    const events = await eventSeriesService.updateOccurrences(
+      req.params.eventId,
+      scope,
+      updateData,
+      req.user.id
+    );
+
+    if (!events) {
+      return next(
+        AppError.notFound(
+          "Event not found or you are not authorized to update this event"
+        )
+      );
+    }
+
+    res.status(200).json({
+      success: true,
+      count: events.length,
+      data: events,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Cancel one occurrence, or it and all following occurrences
+// @route   POST /api/events/series/cancelOccurrence/:eventId
+// @access  Private (Club Admin/Captain)
+export const cancelSeriesOccurrence = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const cancelledCount = await eventSeriesService.cancelOccurrences(
+      req.params.eventId,
+      req.body.scope,
+      req.user.id,
+      req.body.reason
+    );
+
+    res.status(200).json({
+      success: true,
+      message: `${cancelledCount} event(s) cancelled successfully`,
+      count: cancelledCount,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get upcoming events near the connected user (or near lat/lng)
+// @route   GET /api/events/near?lat=&lng=&radius=&sportCategory=&limit=
+// @access  Private
+export const getNearbyEvents = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const events = await geoService.findNearbyEvents(
+      req.user.id,
+      req.query as NearbyQuery
+    );
+
+    res.status(200).json({
+      success: true,
+      count: events.length,
+      data: events,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,214 @@
+import { Request, Response, NextFunction } from "express";
+import { AppError } from "../middleware/errorMiddleware";
+import { fieldService } from "../services/fieldService";
+import { geoService, NearbyQuery } from "../services/geoService";
+import { UserRoleEnum } from "../types/enums";
+
+// Interface for authenticated request
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    role: UserRoleEnum;
+  };
+}
+
+// @desc    Get all fields
+// @route   GET /api/fields
+// @access  Private
+export const getAllFields = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const fields = await fieldService.getAllFields({
+      sportCategory: req.query.sportCategory as string | undefined,
+      city: req.query.city as string | undefined,
+      isIndoor: req.query.isIndoor as string | undefined,
+    });
+
+    res.status(200).json({
+      success: true,
+      count: fields.length,
+      data: fields,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get field by ID
+// @route   GET /api/fields/:id
+// @access  Private
+export const getFieldById = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const field = await fieldService.getFieldById(req.params.id);
+
+    if (!field) {
+      return next(AppError.notFound("Field not found"));
+    }
+
+    res.status(200).json({
+      success: true,
+      data: field,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Create a new field
+// @route   POST /api/fields
+// @access  Private (Silver/Gold/Premium)
+export const createField = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const field = await fieldService.createField({ ...req.body }, req.user.id);
+
+    res.status(201).json({
+      success: true,
+      data: field,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Update field
+// @route   PUT /api/fields/:id
+// @access  Private (Field Creator/Super Admin)
+export const updateField = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const field = await fieldService.updateField(
+      req.params.id,
+      { ...req.body },
+      req.user.id,
+      req.user.role
+    );
+
+    if (!field) {
+      return next(
+        AppError.notFound(
+          "Field not found or you are not authorized to update this field"
+        )
+      );
+    }
+
+    res.status(200).json({
+      success: true,
+      data: field,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Delete field
+// @route   DELETE /api/fields/:id
+// @access  Private (Field Creator/Super Admin)
+export const deleteField = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const result = await fieldService.deleteField(
+      req.params.id,
+      req.user.id,
+      req.user.role
+    );
+
+    if (!result) {
+      return next(
+        AppError.notFound(
+          "Field not found or you are not authorized to delete this field"
+        )
+      );
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Field deleted successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get field bookings and free slots for a day
+// @route   GET /api/fields/availability/:fieldId?date=YYYY-MM-DD
+// @access  Private
+export const getFieldAvailability = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const date =
+      (req.query.date as string | undefined) ||
+      new Date().toISOString().slice(0, 10);
+
+    const availability = await fieldService.getAvailability(
+      req.params.fieldId,
+      date
+    );
+
+    res.status(200).json({
+      success: true,
+      data: availability,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get fields near the connected user (or near lat/lng)
+// @route   GET /api/fields/near?lat=&lng=&radius=&sportCategory=&limit=
+// @access  Private
+export const getNearbyFields = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const fields = await geoService.findNearbyFields(
+      req.user.id,
+      req.query as NearbyQuery
+    );
+
+    res.status(200).json({
+      success: true,
+      count: fields.length,
+      data: fields,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,66 @@
+import { Request, Response, NextFunction } from "express";
+import { AppError } from "../middleware/errorMiddleware";
+import {
+  leaderboardService,
+  LeaderboardQuery,
+} from "../services/leaderboardService";
+import { UserRoleEnum } from "../types/enums";
+
+// Interface for authenticated request
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    role: UserRoleEnum;
+  };
+}
+
+// @desc    Get the leaderboard of a club
+// @route   GET /api/leaderboards/club/:clubId?metric=&period=&minMatches=&page=&limit=
+// @access  Private (Club Members)
+export const getClubLeaderboard = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const leaderboard = await leaderboardService.getClubLeaderboard(
+      req.params.clubId,
+      req.user.id,
+      req.query as LeaderboardQuery
+    );
+
+    res.status(200).json({
+      success: true,
+      ...leaderboard,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get the leaderboard of a sport across all clubs
+// @route   GET /api/leaderboards/sport/:sportCategory?metric=&period=&minMatches=&page=&limit=
+// @access  Private
+export const getSportLeaderboard = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const leaderboard = await leaderboardService.getSportLeaderboard(
+      req.params.sportCategory,
+      req.query as LeaderboardQuery
+    );
+
+    res.status(200).json({
+      success: true,
+      ...leaderboard,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
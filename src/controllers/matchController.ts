@@ -0,0 +1,240 @@
+import { Request, Response, NextFunction } from "express";
+import { AppError } from "../middleware/errorMiddleware";
+import { matchService } from "../services/matchService";
+import { UserRoleEnum } from "../types/enums";
+
+// Interface for authenticated request
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    role: UserRoleEnum;
+  };
+}
+
+// @desc    Create a match for an event
+// @route   POST /api/matches
+// @access  Private (Club Admin/Captain)
+export const createMatch = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const { eventId, teams } = req.body;
+
+    const match = await matchService.createMatch(
+      { eventId, teams },
+      req.user.id
+    );
+
+    res.status(201).json({
+      success: true,
+      data: match,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get match by ID
+// @route   GET /api/matches/:id
+// @access  Private (Club Members)
+export const getMatchById = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const match = await matchService.getMatchById(req.params.id, req.user.id);
+
+    if (!match) {
+      return next(
+        AppError.notFound(
+          "Match not found or you are not authorized to view this match"
+        )
+      );
+    }
+
+    res.status(200).json({
+      success: true,
+      data: match,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get all matches of an event
+// @route   GET /api/matches/byEvent/:eventId
+// @access  Private (Club Members)
+export const getMatchesByEvent = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const matches = await matchService.getMatchesByEvent(
+      req.params.eventId,
+      req.user.id
+    );
+
+    res.status(200).json({
+      success: true,
+      count: matches.length,
+      data: matches,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Delete match
+// @route   DELETE /api/matches/:id
+// @access  Private (Club Admin/Captain)
+export const deleteMatch = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    await matchService.deleteMatch(req.params.id, req.user.id);
+
+    res.status(200).json({
+      success: true,
+      message: "Match deleted successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Record a goal in a football match
+// @route   POST /api/matches/goal/:matchId
+// @access  Private (Club Admin/Captain)
+export const addGoal = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const { scorer, assist, team, minute } = req.body;
+
+    const match = await matchService.addGoal(
+      req.params.matchId,
+      { scorer, assist, team, minute },
+      req.user.id
+    );
+
+    res.status(200).json({
+      success: true,
+      data: match,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Remove a goal from a football match
+// @route   DELETE /api/matches/goal/:matchId/:goalId
+// @access  Private (Club Admin/Captain)
+export const removeGoal = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const match = await matchService.removeGoal(
+      req.params.matchId,
+      req.params.goalId,
+      req.user.id
+    );
+
+    res.status(200).json({
+      success: true,
+      data: match,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Set a player's points in a basketball match
+// @route   POST /api/matches/points/:matchId
+// @access  Private (Club Admin/Captain)
+export const setPlayerPoints = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const { playerId, team, points } = req.body;
+
+    const match = await matchService.setPlayerPoints(
+      req.params.matchId,
+      { playerId, team, points },
+      req.user.id
+    );
+
+    res.status(200).json({
+      success: true,
+      data: match,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Finalize a match and update the players' stats
+// @route   POST /api/matches/finalize/:matchId
+// @access  Private (Club Admin/Captain)
+export const finalizeMatch = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const match = await matchService.finalizeMatch(
+      req.params.matchId,
+      req.user.id
+    );
+
+    res.status(200).json({
+      success: true,
+      data: match,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
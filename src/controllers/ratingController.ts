@@ -0,0 +1,68 @@
+import { Request, Response, NextFunction } from "express";
+import { AppError } from "../middleware/errorMiddleware";
+import { ratingService } from "../services/ratingService";
+import { UserRoleEnum } from "../types/enums";
+
+// Interface for authenticated request
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    role: UserRoleEnum;
+  };
+}
+
+// @desc    Rate the players of a completed event
+// @route   POST /api/ratings/event/:eventId
+// @access  Private (Event Participants)
+export const submitRatings = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const ratings = await ratingService.submitRatings(
+      req.params.eventId,
+      req.user.id,
+      req.body.ratings
+    );
+
+    res.status(201).json({
+      success: true,
+      count: ratings.length,
+      data: ratings,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get the players the connected user rated or still has to rate
+// @route   GET /api/ratings/event/:eventId
+// @access  Private (Event Participants)
+export const getEventRatingStatus = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const status = await ratingService.getEventRatingStatus(
+      req.params.eventId,
+      req.user.id
+    );
+
+    res.status(200).json({
+      success: true,
+      data: status,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,9 +1,13 @@
 import { Request, Response, NextFunction } from "express";
-import jwt from "jsonwebtoken";
-import User from "../models/User";
 import { AppError } from "../middleware/errorMiddleware";
 import { UserRoleEnum } from "../types/enums";
 import { userService } from "../services/userService";
+import { authService, SessionMeta } from "../services/authService";
+import { emailVerificationService } from "../services/emailVerificationService";
+import { passwordService } from "../services/passwordService";
+import { auditLogService } from "../services/auditLogService";
+import { playerStatsService } from "../services/playerStatsService";
+import { eloService } from "../services/eloService";
 
 // Interface for authenticated request
 interface AuthenticatedRequest extends Request {
@@ -13,12 +17,11 @@ interface AuthenticatedRequest extends Request {
   };
 }
 
-// Helper: Generate JWT
-const generateToken = (id: string): string => {
-  return jwt.sign({ id }, process.env.JWT_SECRET || "secret", {
-    expiresIn: "30d",
-  });
-};
+// Helper: read the device details of a new session
+const getSessionMeta = (req: Request): SessionMeta => ({
+  ip: req.ip,
+  userAgent: req.get("user-agent"),
+});
 
 // @desc    Register a new user
 // @route   POST /api/users/register
@@ -54,8 +57,18 @@ export const registerUser = async (
       role: UserRoleEnum.USER, // Regular user by default
     });
 
-    // Generate token
-    const token = generateToken(user._id.toString());
+    // Send the verification mail - a failed send can be retried with resend
+    await emailVerificationService
+      .sendVerification(user._id.toString())
+      .catch((error) =>
+        console.error(`Failed to send verification email: ${error.message}`)
+      );
+
+    // Open a session
+    const { token, refreshToken } = await authService.createSession(
+      user._id.toString(),
+      getSessionMeta(req)
+    );
 
     res.status(201).json({
       success: true,
@@ -66,7 +79,10 @@ export const registerUser = async (
         phone: user.phone,
         role: user.role,
         sportCategory: user.sportCategory,
+        isEmailVerified: user.isEmailVerified,
+        accountStatus: user.accountStatus,
         token,
+        refreshToken,
       },
     });
   } catch (error: any) {
@@ -85,28 +101,205 @@ export const loginUser = async (
   try {
     const { email, password } = req.body;
 
-    // Check if email and password were provided
-    if (!email || !password) {
-      return next(AppError.badRequest("Please provide email and password"));
+    // Checks the password and the account status, then opens a session
+    const { user, token, refreshToken } = await authService.login(
+      email,
+      password,
+      getSessionMeta(req)
+    );
+
+    res.status(200).json({
+      success: true,
+      data: {
+        user,
+        token,
+        refreshToken,
+      },
+    });
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+// @desc    Rotate the refresh token and get a new access token
+// @route   POST /api/users/refreshToken
+// @access  Public
+export const refreshToken = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const tokens = await authService.refreshSession(
+      req.body.refreshToken,
+      getSessionMeta(req)
+    );
+
+    res.status(200).json({
+      success: true,
+      data: tokens,
+    });
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+// @desc    Log out of the current session
+// @route   POST /api/users/logout
+// @access  Public
+export const logoutUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    // טוקן לא מוכר נחשב כסשן שכבר נסגר
+    await authService.logout(req.body.refreshToken);
+
+    res.status(200).json({
+      success: true,
+      message: "Logged out successfully",
+    });
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+// @desc    Log out of all devices
+// @route   POST /api/users/logoutAll
+// @access  Private
+export const logoutAllDevices = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const count = await authService.logoutAll(req.user.id);
+
+    res.status(200).json({
+      success: true,
+      message: "Logged out of all devices successfully",
+      count,
+    });
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+// @desc    Verify the email address with the token from the verification mail
+// @route   POST /api/users/verifyEmail
+// @access  Public
+export const verifyEmail = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const user = await emailVerificationService.verifyEmail(req.body.token);
+
+    res.status(200).json({
+      success: true,
+      data: user,
+    });
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+// @desc    Send a new verification mail to the connected user
+// @route   POST /api/users/resendVerification
+// @access  Private
+export const resendVerification = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
     }
 
-    // Find user by email with password included
-    const user = await User.findOne({ email }).select("+password");
+    await emailVerificationService.sendVerification(req.user.id);
+
+    res.status(200).json({
+      success: true,
+      message: "Verification email sent successfully",
+    });
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+// @desc    Send a password reset link to the account's email
+// @route   POST /api/users/forgotPassword
+// @access  Public
+export const forgotPassword = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    await passwordService.requestPasswordReset(req.body.email);
 
-    // Check if user exists and password matches
-    if (!user || !(await user.matchPassword(password))) {
-      return next(AppError.unauthorized("Invalid email or password"));
+    // אותה תשובה גם לאימייל שאינו רשום
+    res.status(200).json({
+      success: true,
+      message: "If the email is registered, a reset link has been sent",
+    });
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+// @desc    Set a new password with a reset token
+// @route   POST /api/users/resetPassword
+// @access  Public
+export const resetPassword = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    await passwordService.resetPassword(req.body.token, req.body.password);
+
+    res.status(200).json({
+      success: true,
+      message: "Password reset successfully, please log in again",
+    });
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+// @desc    Change the password of the connected user
+// @route   PUT /api/users/changePassword
+// @access  Private
+export const changePassword = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
     }
 
-    // Generate token
-    const token = generateToken(user._id.toString());
+    // כל הסשנים נסגרים - המכשיר הנוכחי מקבל סשן חדש
+    const tokens = await passwordService.changePassword(
+      req.user.id,
+      req.body.currentPassword,
+      req.body.newPassword,
+      getSessionMeta(req)
+    );
 
     res.status(200).json({
       success: true,
-      data: {
-        user,
-        token,
-      },
+      message: "Password changed successfully",
+      data: tokens,
     });
   } catch (error: any) {
     next(error);
@@ -163,11 +356,6 @@ export const updateConnectedUser = async (
       return next(AppError.forbidden("You can only update your own profile"));
     }
 
-    // For security reasons, don't allow role change through this endpoint
-    if (req.body.role && req.user.role !== UserRoleEnum.SUPER_ADMIN) {
-      delete req.body.role;
-    }
-
     const user = await userService.updateUser(req.params.id, req.body);
 
     if (!user) {
@@ -204,24 +392,35 @@ export const getUsers = async (
   }
 };
 
-// @desc    Get user by ID
-// @route   GET /api/users/:id
+// @desc    Get user by ID with their stats profile
+// @route   GET /api/users/getById/:id?historyLimit=
 // @access  Private
 export const getUser = async (
-  req: Request,
+  req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
 ) => {
   try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
     const user = await userService.getUserById(req.params.id);
 
     if (!user) {
       return next(AppError.notFound("User not found"));
     }
 
+    // פרופיל סטטיסטיקות מתוך המשחקים הסגורים של השחקן
+    const stats = await playerStatsService.getPlayerProfile(
+      req.params.id,
+      req.user,
+      Number(req.query.historyLimit) || undefined
+    );
+
     res.status(200).json({
       success: true,
-      data: user,
+      data: { ...user.toJSON(), stats },
     });
   } catch (error: any) {
     next(error);
@@ -230,14 +429,18 @@ export const getUser = async (
 
 // @desc    Get users by club
 // @route   GET /api/users/byClub/:clubId
-// @access  Private
+// @access  Private (Club Members)
 export const getUsersByClub = async (
-  req: Request,
+  req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
 ) => {
   try {
-    const users = await userService.getUsersByClub(req.params.clubId);
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const users = await userService.getUsersByClub(req.params.clubId, req.user);
 
     res.status(200).json({
       success: true,
@@ -253,17 +456,28 @@ export const getUsersByClub = async (
 // @route   GET /api/users/byEvent/:eventId
 // @access  Private
 export const getUsersByEvent = async (
-  req: Request,
+  req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
 ) => {
   try {
-    const users = await userService.getUsersByEvent(req.params.eventId);
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const { participants, waitlist } = await userService.getUsersByEvent(
+      req.params.eventId,
+      req.user
+    );
 
     res.status(200).json({
       success: true,
-      count: users.length,
-      data: users,
+      count: participants.length,
+      waitlistCount: waitlist.length,
+      data: {
+        participants,
+        waitlist,
+      },
     });
   } catch (error: any) {
     next(error);
@@ -306,6 +520,63 @@ export const deleteUser = async (
   }
 };
 
+// @desc    Suspend or reactivate a user account
+// @route   PUT /api/users/accountStatus/:id
+// @access  Private (Super Admin)
+export const updateAccountStatus = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const user = await userService.updateAccountStatus(
+      req.params.id,
+      req.body.status,
+      req.body.reason,
+      req.user.id
+    );
+
+    if (!user) {
+      return next(AppError.notFound("User not found"));
+    }
+
+    res.status(200).json({
+      success: true,
+      data: user,
+    });
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+// @desc    Get the audit trail of a user account
+// @route   GET /api/users/auditLog/:id
+// @access  Private (Super Admin)
+export const getUserAuditLog = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const entries = await auditLogService.getUserAuditLog(
+      req.params.id,
+      Number(req.query.limit) || undefined
+    );
+
+    res.status(200).json({
+      success: true,
+      count: entries.length,
+      data: entries,
+    });
+  } catch (error: any) {
+    next(error);
+  }
+};
+
 // @desc    Update user subscription
 // @route   POST /api/users/changeSubscription/:subscriptionId
 // @access  Private
@@ -355,3 +626,120 @@ export const updateUserSubscription = async (
     next(error);
   }
 };
+
+// @desc    Get connected user's favorite fields
+// @route   GET /api/users/favoriteFields
+// @access  Private
+export const getFavoriteFields = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const fields = await userService.getFavoriteFields(req.user.id);
+
+    if (!fields) {
+      return next(AppError.notFound("User not found"));
+    }
+
+    res.status(200).json({
+      success: true,
+      count: fields.length,
+      data: fields,
+    });
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+// @desc    Add a field to connected user's favorites
+// @route   POST /api/users/favoriteFields/:fieldId
+// @access  Private
+export const addFavoriteField = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const user = await userService.addFavoriteField(
+      req.user.id,
+      req.params.fieldId
+    );
+
+    if (!user) {
+      return next(AppError.notFound("User not found"));
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Field added to favorites",
+      data: user.favoriteFields,
+    });
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+// @desc    Remove a field from connected user's favorites
+// @route   DELETE /api/users/favoriteFields/:fieldId
+// @access  Private
+export const removeFavoriteField = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return next(AppError.unauthorized("User not authenticated"));
+    }
+
+    const user = await userService.removeFavoriteField(
+      req.user.id,
+      req.params.fieldId
+    );
+
+    if (!user) {
+      return next(AppError.notFound("User not found"));
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Field removed from favorites",
+      data: user.favoriteFields,
+    });
+  } catch (error: any) {
+    next(error);
+  }
+};
+
+// @desc    Get the Elo rating history of a user in a sport
+// @route   GET /api/users/ratingHistory/:id?sportCategory=&limit=
+// @access  Private
+export const getRatingHistory = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const ratingHistory = await eloService.getRatingHistory(
+      req.params.id,
+      req.query.sportCategory as string,
+      Number(req.query.limit) || undefined
+    );
+
+    res.status(200).json({
+      success: true,
+      data: ratingHistory,
+    });
+  } catch (error: any) {
+    next(error);
+  }
+};
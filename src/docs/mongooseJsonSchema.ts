@@ -0,0 +1,100 @@
+import { Schema, SchemaType } from "mongoose";
+
+export type JsonSchema = Record<string, any>;
+
+// ערך של min/max יכול להיות מספר או [מספר, הודעת שגיאה]
+const optionValue = (value: any) => (Array.isArray(value) ? value[0] : value);
+
+/**
+ * Convert a single mongoose path to a JSON schema
+ * @param type Mongoose schema type of the path
+ * @returns JSON schema of the path's value
+ */
+const schemaTypeToJson = (type: SchemaType): JsonSchema => {
+  const anyType = type as any;
+  const options = anyType.options || {};
+
+  switch (type.instance) {
+    case "String":
+      return {
+        type: "string",
+        ...(anyType.enumValues?.length && { enum: anyType.enumValues }),
+        ...(options.maxlength && { maxLength: optionValue(options.maxlength) }),
+      };
+    case "Number":
+      return {
+        type: "number",
+        ...(options.min !== undefined && { minimum: optionValue(options.min) }),
+        ...(options.max !== undefined && { maximum: optionValue(options.max) }),
+      };
+    case "Boolean":
+      return { type: "boolean" };
+    case "Date":
+      return { type: "string", format: "date-time" };
+    case "ObjectId":
+      return { type: "string", pattern: "^[0-9a-fA-F]{24}$" };
+    case "Embedded":
+      return mongooseToJsonSchema(anyType.schema);
+    case "Map": {
+      const valueType = anyType.$__schemaType;
+      return {
+        type: "object",
+        additionalProperties: valueType ? schemaTypeToJson(valueType) : {},
+      };
+    }
+    case "Array": {
+      // מערך של תתי מסמכים או מערך של ערכים פשוטים
+      if (anyType.schema) {
+        return { type: "array", items: mongooseToJsonSchema(anyType.schema) };
+      }
+      const caster = anyType.embeddedSchemaType || anyType.caster;
+      return { type: "array", items: caster ? schemaTypeToJson(caster) : {} };
+    }
+    default:
+      return {};
+  }
+};
+
+/**
+ * Build a JSON schema (OpenAPI 3 flavour) from a mongoose schema, nesting
+ * dotted paths and skipping fields that are never sent to clients
+ * @param schema Mongoose schema
+ * @param exclude Top level fields to leave out (e.g. removed by toJSON)
+ * @returns JSON schema of the documents
+ */
+export const mongooseToJsonSchema = (
+  schema: Schema,
+  exclude: string[] = []
+): JsonSchema => {
+  const root: JsonSchema = { type: "object", properties: {} };
+
+  schema.eachPath((path, type) => {
+    if (
+      path === "__v" ||
+      path.includes("$*") || // ערכי Map מתוארים כבר ב-additionalProperties
+      (type as any).options?.select === false ||
+      exclude.includes(path.split(".")[0])
+    ) {
+      return;
+    }
+
+    // יצירת אובייקטים מקוננים עבור נתיבים כמו location.lat
+    const parts = path.split(".");
+    let parent = root;
+    for (const part of parts.slice(0, -1)) {
+      parent.properties[part] = parent.properties[part] || {
+        type: "object",
+        properties: {},
+      };
+      parent = parent.properties[part];
+    }
+
+    const name = parts[parts.length - 1];
+    parent.properties[name] = schemaTypeToJson(type);
+    if (type.isRequired) {
+      parent.required = [...(parent.required || []), name];
+    }
+  });
+
+  return root;
+};
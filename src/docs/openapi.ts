@@ -0,0 +1,202 @@
+import { Router } from "express";
+import { z } from "zod";
+import { protect } from "../middleware/authMiddleware";
+import {
+  RequestSchemas,
+  ValidationMiddleware,
+} from "../middleware/validateMiddleware";
+import { JsonSchema } from "./mongooseJsonSchema";
+import { buildComponentSchemas, ref, objectOf } from "./schemas";
+import { routeDocs, RouteDoc } from "./routeDocs";
+
+export interface ApiMount {
+  path: string;
+  router: Router;
+  tag: string;
+}
+
+const API_VERSION = "1.0.0";
+
+// שכבת handler בתוך ניתוב - מידלוור או קונטרולר של מתודה אחת
+type RouteHandlerLayer = NonNullable<
+  Router["stack"][number]["route"]
+>["stack"][number];
+
+/**
+ * Whether a route handler is the validation middleware, which carries the
+ * request schemas of the route
+ */
+const isValidationMiddleware = (
+  handle: RouteHandlerLayer["handle"]
+): handle is ValidationMiddleware => "schemas" in handle;
+
+// תשובות שגיאה נפוצות לכל הניתובים
+const errorResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: ref("Error") } },
+});
+
+/**
+ * Build the success response schema of an operation
+ * @param doc Documentation of the route
+ * @returns JSON schema of the response body
+ */
+const successSchema = (doc: RouteDoc): JsonSchema => {
+  if (doc.response) {
+    return doc.response;
+  }
+  if (!doc.data) {
+    return ref("Message");
+  }
+  return objectOf({
+    success: { type: "boolean" },
+    ...(doc.list && { count: { type: "integer" } }),
+    data: doc.data,
+  });
+};
+
+/**
+ * Convert a request schema of the validation middleware to a JSON schema
+ */
+const toJsonSchema = (schema: z.ZodType) =>
+  z.toJSONSchema(schema, {
+    target: "openapi-3.0",
+    io: "input",
+    unrepresentable: "any",
+  }) as JsonSchema;
+
+/**
+ * Build a single OpenAPI operation from a route handler, its validation
+ * schemas and its docs
+ */
+const buildOperation = (
+  operationId: string,
+  tag: string,
+  pathParams: string[],
+  secured: boolean,
+  schemas: RequestSchemas,
+  doc: RouteDoc
+) => {
+  const params = schemas.params && toJsonSchema(schemas.params);
+  const query = schemas.query && toJsonSchema(schemas.query);
+
+  const parameters = [
+    ...pathParams.map((name) => ({
+      name,
+      in: "path",
+      required: true,
+      schema: params?.properties?.[name] || { type: "string" },
+    })),
+    ...Object.entries(query?.properties || {}).map(([name, schema]) => ({
+      name,
+      in: "query",
+      required: !!query?.required?.includes(name),
+      schema,
+    })),
+  ];
+
+  return {
+    tags: [tag],
+    operationId,
+    summary: doc.summary,
+    ...(parameters.length && { parameters }),
+    ...(secured && { security: [{ bearerAuth: [] }] }),
+    ...(schemas.body && {
+      requestBody: {
+        required: true,
+        content: {
+          "application/json": { schema: toJsonSchema(schemas.body) },
+        },
+      },
+    }),
+    responses: {
+      [doc.status || 200]: {
+        description: "Successful response",
+        content: { "application/json": { schema: successSchema(doc) } },
+      },
+      400: errorResponse("Invalid request"),
+      ...(secured && {
+        401: errorResponse("Missing or invalid token"),
+        403: errorResponse("Not allowed"),
+      }),
+      404: errorResponse("Resource not found"),
+    },
+  };
+};
+
+/**
+ * Generate the OpenAPI 3 document of the API from the mounted routers -
+ * paths and methods come from the route definitions, request schemas from
+ * the validation middleware, response schemas from the mongoose models and
+ * the route docs, and every route registered after
+ * the protect middleware is marked as requiring a bearer token. A route
+ * without an entry in the route docs is an error
+ * @param mounts Routers of the API and their mount paths
+ * @returns OpenAPI document
+ */
+export const buildOpenApiSpec = (mounts: ApiMount[]) => {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const { path: basePath, router, tag } of mounts) {
+    let secured = false;
+
+    for (const layer of router.stack) {
+      if (!layer.route) {
+        secured = secured || layer.handle === protect;
+        continue;
+      }
+
+      // המרת /:id לתחביר של OpenAPI - /{id}
+      const routePath = `${basePath}${layer.route.path}`.replace(/\/$/, "");
+      const pathParams: string[] = [];
+      const openApiPath = routePath.replace(/:(\w+)/g, (_, name: string) => {
+        pathParams.push(name);
+        return `{${name}}`;
+      });
+
+      paths[openApiPath] = paths[openApiPath] || {};
+      const { stack } = layer.route;
+      for (const method of new Set(stack.map((entry) => entry.method))) {
+        // הפונקציה האחרונה בשרשרת היא הקונטרולר
+        const handlers = stack.filter((entry) => entry.method === method);
+        const operationId = handlers[handlers.length - 1].name;
+        const doc = routeDocs[operationId];
+        if (!doc) {
+          throw new Error(
+            `Missing route docs for ${method.toUpperCase()} ${routePath} (operationId "${operationId}")`
+          );
+        }
+
+        // הסכמות נשמרות על מידלוור הוולידציה של הניתוב
+        const validator = handlers
+          .map((entry) => entry.handle)
+          .find(isValidationMiddleware);
+        paths[openApiPath][method] = buildOperation(
+          operationId,
+          tag,
+          pathParams,
+          secured,
+          validator?.schemas || {},
+          doc
+        );
+      }
+    }
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "Sports Clubs API",
+      version: API_VERSION,
+    },
+    servers: [{ url: "/api/v1" }],
+    tags: mounts.map(({ tag }) => ({ name: tag })),
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+      },
+      schemas: buildComponentSchemas(),
+    },
+  };
+};
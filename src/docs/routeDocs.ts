@@ -0,0 +1,349 @@
+import { JsonSchema } from "./mongooseJsonSchema";
+import { ref, arrayOf, objectOf } from "./schemas";
+
+export interface RouteDoc {
+  summary: string;
+  status?: number; // קוד התשובה בהצלחה - ברירת מחדל 200
+  data?: JsonSchema; // תוכן השדה data בתשובה
+  list?: boolean; // התשובה כוללת count ו-data כמערך
+  response?: JsonSchema; // גוף תשובה מלא כשאינו במבנה { success, data }
+}
+
+const leaderboardResponse = objectOf({
+  success: { type: "boolean" },
+  metric: { type: "string" },
+  period: { type: "string" },
+  data: arrayOf(ref("LeaderboardEntry")),
+  pagination: ref("Pagination"),
+});
+
+// תיעוד הניתובים לפי שם פונקציית הקונטרולר (operationId)
+export const routeDocs: Record<string, RouteDoc> = {
+  // Users
+  registerUser: {
+    summary: "Register a new user",
+    status: 201,
+    data: ref("User"),
+  },
+  loginUser: {
+    summary: "Log in and receive a JWT",
+    data: objectOf({
+      user: ref("User"),
+      token: { type: "string" },
+      refreshToken: { type: "string" },
+    }),
+  },
+  refreshToken: {
+    summary: "Rotate the refresh token and get a new access token",
+    data: objectOf({
+      token: { type: "string" },
+      refreshToken: { type: "string" },
+    }),
+  },
+  logoutUser: { summary: "Log out of the current session" },
+  verifyEmail: {
+    summary: "Verify the email address with a token from the verification mail",
+    data: ref("User"),
+  },
+  resendVerification: {
+    summary: "Send a new verification mail (rate limited)",
+  },
+  forgotPassword: { summary: "Send a password reset link by mail" },
+  resetPassword: {
+    summary: "Set a new password with a reset token and log out everywhere",
+  },
+  changePassword: {
+    summary: "Change the password and revoke all other sessions",
+    response: objectOf({
+      success: { type: "boolean" },
+      message: { type: "string" },
+      data: objectOf({
+        token: { type: "string" },
+        refreshToken: { type: "string" },
+      }),
+    }),
+  },
+  logoutAllDevices: {
+    summary: "Log out of all devices",
+    response: objectOf({
+      success: { type: "boolean" },
+      message: { type: "string" },
+      count: { type: "integer" },
+    }),
+  },
+  getConnectedUser: { summary: "Get the connected user", data: ref("User") },
+  updateConnectedUser: {
+    summary: "Update the connected user",
+    data: ref("User"),
+  },
+  getUsersByClub: {
+    summary: "Get the members of a club",
+    list: true,
+    data: arrayOf(ref("User")),
+  },
+  getUsersByEvent: {
+    summary:
+      "Get the registered and waitlisted users of an event (private clubs: members only)",
+    data: objectOf({
+      participants: arrayOf(ref("User")),
+      waitlist: arrayOf(ref("User")),
+    }),
+  },
+  getUsers: {
+    summary: "Get all users",
+    list: true,
+    data: arrayOf(ref("User")),
+  },
+  getUser: {
+    summary: "Get a user with their stats profile",
+    data: ref("User"),
+  },
+  getRatingHistory: {
+    summary: "Get the Elo rating history of a user in a sport",
+    data: objectOf({
+      sportCategory: { type: "string" },
+      rating: { type: "number" },
+      matchesCount: { type: "integer" },
+      history: arrayOf(ref("RatingHistory")),
+    }),
+  },
+  deleteUser: { summary: "Delete a user" },
+  updateAccountStatus: {
+    summary: "Suspend or reactivate a user account (super admin)",
+    data: ref("User"),
+  },
+  getUserAuditLog: {
+    summary: "Get the audit trail of a user account (super admin)",
+    list: true,
+    data: arrayOf(ref("AuditLog")),
+  },
+  getFavoriteFields: {
+    summary: "Get the connected user's favorite fields",
+    list: true,
+    data: arrayOf(ref("Field")),
+  },
+  addFavoriteField: { summary: "Add a field to the favorites" },
+  removeFavoriteField: { summary: "Remove a field from the favorites" },
+  updateUserSubscription: { summary: "Change the connected user's plan" },
+
+  // Clubs
+  getNearbyClubs: {
+    summary: "Find open public clubs nearby",
+    list: true,
+    data: arrayOf(ref("Club")),
+  },
+  getAllClubs: {
+    summary: "Get clubs (filtered, searched, sorted and paginated)",
+    response: objectOf({
+      success: { type: "boolean" },
+      count: { type: "integer" },
+      data: arrayOf(ref("Club")),
+      pagination: {
+        allOf: [
+          ref("Pagination"),
+          objectOf({ nextPage: { type: "integer", nullable: true } }),
+        ],
+      },
+    }),
+  },
+  createClub: {
+    summary: "Create a club",
+    status: 201,
+    data: ref("Club"),
+  },
+  getClubById: { summary: "Get a club", data: ref("Club") },
+  updateClub: {
+    summary: "Update a club",
+    data: ref("Club"),
+  },
+  deleteClub: { summary: "Delete a club" },
+  leaveClubRequest: { summary: "Leave a club" },
+  joinClubRequest: {
+    summary: "Send a join request",
+  },
+  cancelJoinRequest: { summary: "Cancel a join request" },
+  acceptJoinRequest: { summary: "Accept a join request" },
+  rejectJoinRequest: { summary: "Reject a join request" },
+  promoteCaptain: { summary: "Promote a member to captain", data: ref("Club") },
+  demoteCaptain: { summary: "Demote a captain", data: ref("Club") },
+  transferOwnership: {
+    summary: "Transfer the club ownership to another member",
+    data: ref("Club"),
+  },
+  removeMember: {
+    summary: "Remove a member from the club, optionally banning them",
+    data: ref("Club"),
+  },
+  unbanMember: { summary: "Lift the ban of a user", data: ref("Club") },
+  inviteUser: {
+    summary: "Invite a user to join the club",
+    status: 201,
+  },
+  cancelInvitation: { summary: "Cancel an invitation" },
+  getMyInvitations: {
+    summary: "Get the club invitations of the connected user",
+    list: true,
+    data: arrayOf(ref("Club")),
+  },
+  acceptInvitation: { summary: "Accept an invitation and join the club" },
+  declineInvitation: { summary: "Decline an invitation" },
+  createInviteCode: {
+    summary: "Create an expiring, usage-limited invite code",
+    status: 201,
+    data: ref("InviteCode"),
+  },
+  getInviteCodes: {
+    summary: "Get the active invite codes of the club",
+    list: true,
+    data: arrayOf(ref("InviteCode")),
+  },
+  revokeInviteCode: { summary: "Revoke an invite code" },
+  joinByCode: {
+    summary: "Join a club using an invite code",
+    data: ref("Club"),
+  },
+
+  // Events
+  getUpcomingEvents: {
+    summary: "Get the upcoming events of the connected user's clubs",
+    list: true,
+    data: arrayOf(ref("Event")),
+  },
+  getEventsByClub: {
+    summary: "Get the events of a club",
+    list: true,
+    data: arrayOf(ref("Event")),
+  },
+  getNearbyEvents: {
+    summary: "Find upcoming events nearby",
+    list: true,
+    data: arrayOf(ref("Event")),
+  },
+  createEventSeries: {
+    summary: "Create a recurring event series",
+    status: 201,
+    data: objectOf({
+      series: ref("EventSeries"),
+      events: arrayOf(ref("Event")),
+    }),
+  },
+  getEventSeries: {
+    summary: "Get an event series and its occurrences",
+    data: objectOf({
+      series: ref("EventSeries"),
+      events: arrayOf(ref("Event")),
+    }),
+  },
+  updateSeriesOccurrence: {
+    summary:
+      "Update one occurrence or all following occurrences (capacity: one occurrence only)",
+  },
+  cancelSeriesOccurrence: {
+    summary: "Cancel one occurrence or all following occurrences",
+  },
+  createEvent: {
+    summary: "Create an event",
+    status: 201,
+    data: ref("Event"),
+  },
+  getEventById: { summary: "Get an event", data: ref("Event") },
+  updateEvent: {
+    summary: "Update an event",
+    data: ref("Event"),
+  },
+  deleteEvent: { summary: "Delete an event and its matches" },
+  changeEventStatus: {
+    summary: "Change the status of an event",
+    data: ref("Event"),
+  },
+  registerToEvent: { summary: "Register to an event or join its waitlist" },
+  withdrawFromEvent: { summary: "Withdraw from an event" },
+  generateTeams: {
+    summary: "Generate balanced teams",
+  },
+  lockTeams: {
+    summary: "Lock or unlock the teams of an event",
+    data: ref("Event"),
+  },
+  swapTeamPlayers: {
+    summary: "Swap two players between teams",
+    data: ref("Event"),
+  },
+
+  // Fields
+  getAllFields: {
+    summary: "Get all fields",
+    list: true,
+    data: arrayOf(ref("Field")),
+  },
+  createField: {
+    summary: "Create a field",
+    status: 201,
+    data: ref("Field"),
+  },
+  getNearbyFields: {
+    summary: "Find fields nearby",
+    list: true,
+    data: arrayOf(ref("Field")),
+  },
+  getFieldAvailability: {
+    summary: "Get the bookings and free slots of a field for a day",
+  },
+  getFieldById: { summary: "Get a field", data: ref("Field") },
+  updateField: {
+    summary: "Update a field",
+    data: ref("Field"),
+  },
+  deleteField: { summary: "Delete a field" },
+
+  // Matches
+  getMatchesByEvent: {
+    summary: "Get the matches of an event",
+    list: true,
+    data: arrayOf(ref("Match")),
+  },
+  addGoal: {
+    summary: "Record a goal in a football match",
+    data: ref("FootballMatch"),
+  },
+  removeGoal: {
+    summary: "Remove a goal from a football match",
+    data: ref("FootballMatch"),
+  },
+  setPlayerPoints: {
+    summary: "Set a player's points in a basketball match",
+    data: ref("BasketballMatch"),
+  },
+  finalizeMatch: {
+    summary: "Finalize a match and update the players' stats",
+    data: ref("Match"),
+  },
+  createMatch: {
+    summary: "Create a match for an event",
+    status: 201,
+    data: ref("Match"),
+  },
+  getMatchById: { summary: "Get a match", data: ref("Match") },
+  deleteMatch: { summary: "Delete a match" },
+
+  // Leaderboards
+  getClubLeaderboard: {
+    summary: "Get the leaderboard of a club",
+    response: leaderboardResponse,
+  },
+  getSportLeaderboard: {
+    summary: "Get the leaderboard of a sport across all clubs",
+    response: leaderboardResponse,
+  },
+
+  // Ratings
+  getEventRatingStatus: {
+    summary: "Get the players the connected user rated in an event",
+  },
+  submitRatings: {
+    summary: "Rate the players of a completed event",
+    status: 201,
+    list: true,
+    data: arrayOf(ref("PlayerRating")),
+  },
+};
@@ -0,0 +1,115 @@
+import User from "../models/User";
+import Club from "../models/Club";
+import Event from "../models/Event";
+import EventSeries from "../models/EventSeries";
+import Field from "../models/Field";
+import { FootballMatch, BasketballMatch } from "../models/Match";
+import PlayerRating from "../models/PlayerRating";
+import RatingHistory from "../models/RatingHistory";
+import AuditLog from "../models/AuditLog";
+import { JsonSchema, mongooseToJsonSchema } from "./mongooseJsonSchema";
+
+export const ref = (name: string): JsonSchema => ({
+  $ref: `#/components/schemas/${name}`,
+});
+
+export const arrayOf = (items: JsonSchema): JsonSchema => ({
+  type: "array",
+  items,
+});
+
+export const objectOf = (
+  properties: Record<string, JsonSchema>,
+  required: string[] = []
+): JsonSchema => ({
+  type: "object",
+  properties,
+  ...(required.length && { required }),
+});
+
+export const objectId: JsonSchema = {
+  type: "string",
+  pattern: "^[0-9a-fA-F]{24}$",
+};
+
+/**
+ * Build the component schemas of the API - document schemas are generated
+ * from the mongoose models, the rest are shared response shapes
+ * @returns Component schemas by name
+ */
+export const buildComponentSchemas = (): Record<string, JsonSchema> => ({
+  User: mongooseToJsonSchema(User.schema),
+  Club: mongooseToJsonSchema(Club.schema),
+  Event: mongooseToJsonSchema(Event.schema),
+  EventSeries: mongooseToJsonSchema(EventSeries.schema),
+  Field: mongooseToJsonSchema(Field.schema, ["bookingLock"]),
+  FootballMatch: mongooseToJsonSchema(FootballMatch.schema),
+  BasketballMatch: mongooseToJsonSchema(BasketballMatch.schema),
+  Match: {
+    oneOf: [ref("FootballMatch"), ref("BasketballMatch")],
+    discriminator: {
+      propertyName: "sportCategory",
+      mapping: {
+        football: "#/components/schemas/FootballMatch",
+        basketball: "#/components/schemas/BasketballMatch",
+      },
+    },
+  },
+  PlayerRating: mongooseToJsonSchema(PlayerRating.schema),
+  RatingHistory: mongooseToJsonSchema(RatingHistory.schema),
+  AuditLog: mongooseToJsonSchema(AuditLog.schema),
+  Error: objectOf(
+    {
+      success: { type: "boolean", enum: [false] },
+      status: { type: "string" },
+      message: { type: "string" },
+      // שגיאות הקלט לפי שדה - בתשובות 400 בלבד
+      errors: arrayOf(
+        objectOf(
+          {
+            location: { type: "string", enum: ["body", "params", "query"] },
+            field: { type: "string" },
+            message: { type: "string" },
+          },
+          ["field", "message"]
+        )
+      ),
+    },
+    ["success", "message"]
+  ),
+  Message: objectOf({
+    success: { type: "boolean" },
+    message: { type: "string" },
+  }),
+  InviteCode: objectOf({
+    code: { type: "string" },
+    createdBy: objectId,
+    role: { type: "string", enum: ["user", "captain"] },
+    expiresAt: { type: "string", format: "date-time" },
+    maxUses: { type: "integer" },
+    uses: { type: "integer" },
+    link: { type: "string" },
+  }),
+  Pagination: objectOf({
+    page: { type: "integer" },
+    limit: { type: "integer" },
+    total: { type: "integer" },
+    pages: { type: "integer" },
+  }),
+  LeaderboardEntry: objectOf({
+    rank: { type: "integer" },
+    userId: objectId,
+    user: objectOf({
+      _id: objectId,
+      firstName: { type: "string" },
+      lastName: { type: "string" },
+      image: { type: "string" },
+    }),
+    goals: { type: "number" },
+    assists: { type: "number" },
+    points: { type: "number" },
+    matches: { type: "number" },
+    goalsPerMatch: { type: "number" },
+    rating: { type: "number" },
+  }),
+});
@@ -1,15 +1,29 @@
 import express, { Application, Request, Response } from "express";
+import http from "http";
 import dotenv from "dotenv";
 import connectDB from "./config/db";
-import userRoutes from "./routes/userRoutes";
+import { assertAuthConfig } from "./config/jwt";
+import { assertMailConfig } from "./config/mail";
+import apiRoutes from "./routes";
+import { startEventScheduler } from "./jobs/eventScheduler";
+import { initRealtime } from "./realtime/socketServer";
 import cors from "cors";
 
 // טעינת משתני סביבה
 dotenv.config();
 
+// עצירת השרת כאשר הגדרות האימות חסרות בסביבת ייצור
+assertAuthConfig();
+
+// עצירת השרת כאשר אין ספק דואר אמיתי בסביבת ייצור
+assertMailConfig();
+
 // התחברות למסד הנתונים
 connectDB();
 
+// הפעלת המתזמן שמעדכן את סטטוס האירועים
+startEventScheduler();
+
 // יצירת אפליקציית Express
 const app: Application = express();
 
@@ -25,12 +39,22 @@ app.get("/", (req: Request, res: Response) => {
   res.send("API is running...");
 });
 
-// שימוש בניתובי משתמשים
-app.use("/api/users", userRoutes);
+// ניתובי ה-API בגרסה 1 (כולל תיעוד OpenAPI בכתובת /api/v1/docs)
+app.use("/api/v1", apiRoutes);
+
+// נתיב ישן ללא גרסה - הפניה קבועה (308, שומרת על המתודה והגוף) לגרסה 1,
+// כך שלקוחות קיימים ממשיכים לעבוד והנתיבים מוגשים ומתועדים במקום אחד
+app.use("/api", (req: Request, res: Response) => {
+  res.redirect(308, `/api/v1${req.url}`);
+});
 
 // הגדרת הפורט והפעלת השרת
 const PORT = process.env.PORT || 4000;
 
-app.listen(PORT, () => {
+// שרת HTTP משותף ל-Express ולערוץ הזמן אמת של המשחקים
+const server = http.createServer(app);
+initRealtime(server);
+
+server.listen(PORT, () => {
   console.log(`Server running in development mode on port ${PORT}`);
 });
@@ -0,0 +1,65 @@
+import { eventService } from "../services/eventService";
+
+// תדירות ברירת מחדל להרצת המתזמן - פעם בדקה
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+
+let timer: NodeJS.Timeout | null = null;
+let isRunning = false;
+
+/**
+ * Run a single pass of the event status transitions
+ * @param now Current time
+ */
+export const runEventStatusJobs = async (now = new Date()) => {
+  // מניעת הרצות חופפות אם הרצה קודמת עדיין לא הסתיימה
+  if (isRunning) {
+    return;
+  }
+  isRunning = true;
+
+  try {
+    // ביטול אירועים ללא מספיק משתתפים לפני שהם מתחילים
+    const cancelled = await eventService.cancelUnderfilledEvents(now);
+    const started = await eventService.startDueEvents(now);
+    const completed = await eventService.completeFinishedEvents(now);
+
+    if (cancelled || started || completed) {
+      console.log(
+        `Event scheduler: ${cancelled} cancelled, ${started} started, ${completed} completed`
+      );
+    }
+  } catch (error) {
+    console.error(
+      `Event scheduler failed: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  } finally {
+    isRunning = false;
+  }
+};
+
+/**
+ * Start the in-process scheduler that moves events between statuses
+ */
+export const startEventScheduler = () => {
+  if (timer) {
+    return;
+  }
+
+  const intervalMs =
+    Number(process.env.EVENT_SCHEDULER_INTERVAL_MS) || DEFAULT_INTERVAL_MS;
+
+  timer = setInterval(() => runEventStatusJobs(), intervalMs);
+  runEventStatusJobs();
+};
+
+/**
+ * Stop the event scheduler
+ */
+export const stopEventScheduler = () => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+};
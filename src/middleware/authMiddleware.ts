@@ -2,15 +2,61 @@ import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import { AppError } from "./errorMiddleware";
 import User from "../models/User";
+import { getJwtSecret } from "../config/jwt";
+import { ACCOUNT_STATUS_FIELDS, authService } from "../services/authService";
 import { UserRoleEnum } from "../types/enums";
 
+export interface AuthenticatedUser {
+  id: string;
+  role: UserRoleEnum;
+}
+
+// תוכן טוקן הגישה כפי שנחתם ב-authService
+interface AccessTokenPayload {
+  id: string;
+  tokenVersion?: number;
+}
+
 interface AuthenticatedRequest extends Request {
-  user?: {
-    id: string;
-    role: UserRoleEnum;
-  };
+  user?: AuthenticatedUser;
 }
 
+/**
+ * Verify a JWT, load the user it belongs to and make sure the account may
+ * authenticate. Shared by the HTTP `protect` middleware and the realtime
+ * socket handshake.
+ * @param token JWT sent by the client
+ * @returns ID and role of the authenticated user
+ */
+export const authenticateToken = async (
+  token: string
+): Promise<AuthenticatedUser> => {
+  // פענוח הטוקן
+  const decoded = jwt.verify(token, getJwtSecret()) as AccessTokenPayload;
+
+  // שליפת נתוני המשתמש ללא הסיסמה, כולל גרסת הטוקנים
+  const user = await User.findById(decoded.id).select(
+    `+tokenVersion ${ACCOUNT_STATUS_FIELDS}`
+  );
+
+  if (!user) {
+    throw AppError.unauthorized("User not found");
+  }
+
+  // טוקן שהונפק לפני התנתקות מכל המכשירים אינו תקף
+  if ((decoded.tokenVersion ?? 0) !== (user.tokenVersion ?? 0)) {
+    throw AppError.unauthorized("Session has been revoked");
+  }
+
+  // חשבון נעול, מושעה או לא פעיל אינו יכול לבצע בקשות
+  await authService.ensureCanAuthenticate(user);
+
+  return {
+    id: user._id.toString(),
+    role: user.role as UserRoleEnum,
+  };
+};
+
 // מידלוור להגנה על ניתובים - דורש אימות
 export const protect = async (
   req: AuthenticatedRequest,
@@ -28,27 +74,14 @@ export const protect = async (
       // שליפת הטוקן מהכותרת
       token = req.headers.authorization.split(" ")[1];
 
-      // פענוח הטוקן
-      const decoded = jwt.verify(
-        token,
-        process.env.JWT_SECRET || "secret"
-      ) as any;
-
-      // שליפת נתוני המשתמש ללא הסיסמה
-      const user = await User.findById(decoded.id).select("-password");
-
-      if (!user) {
-        return next(AppError.unauthorized("User not found"));
-      }
-
       // הוספת נתוני המשתמש לבקשה
-      req.user = {
-        id: user._id.toString(),
-        role: user.role as UserRoleEnum,
-      };
+      req.user = await authenticateToken(token);
 
       next();
     } catch (error) {
+      if (error instanceof AppError) {
+        return next(error);
+      }
       return next(AppError.unauthorized("Not authorized, token failed"));
     }
   }
@@ -1,22 +1,31 @@
 import { Request, Response, NextFunction } from "express";
 
+// שגיאת קלט של שדה בודד
+export interface FieldError {
+  location?: "body" | "params" | "query";
+  field: string;
+  message: string;
+}
+
 export class AppError extends Error {
   statusCode: number;
   status: string;
   isOperational: boolean;
+  errors?: FieldError[];
 
-  constructor(message: string, statusCode: number) {
+  constructor(message: string, statusCode: number, errors?: FieldError[]) {
     super(message);
     this.statusCode = statusCode;
     this.status = `${statusCode}`.startsWith("4") ? "fail" : "error";
     this.isOperational = true;
+    this.errors = errors;
 
     Error.captureStackTrace(this, this.constructor);
   }
 
   // Helper methods to create specific error types
-  static badRequest(message: string): AppError {
-    return new AppError(message, 400);
+  static badRequest(message: string, errors?: FieldError[]): AppError {
+    return new AppError(message, 400, errors);
   }
 
   static unauthorized(message: string): AppError {
@@ -31,6 +40,14 @@ export class AppError extends Error {
     return new AppError(message, 404);
   }
 
+  static conflict(message: string): AppError {
+    return new AppError(message, 409);
+  }
+
+  static tooManyRequests(message: string): AppError {
+    return new AppError(message, 429);
+  }
+
   static internal(message: string): AppError {
     return new AppError(message, 500);
   }
@@ -63,10 +80,13 @@ export const errorHandler = (
 
   // Mongoose validation error
   if (err.name === "ValidationError") {
-    const message = Object.values((err as any).errors)
-      .map((val: any) => val.message)
+    const fieldErrors: FieldError[] = Object.values((err as any).errors).map(
+      (val: any) => ({ field: val.path, message: val.message })
+    );
+    const message = fieldErrors
+      .map((fieldError) => fieldError.message)
       .join(", ");
-    error = AppError.badRequest(message);
+    error = AppError.badRequest(message, fieldErrors);
   }
 
   // JWT token errors
@@ -83,11 +103,13 @@ export const errorHandler = (
   // Send response
   const statusCode = (error as AppError).statusCode || 500;
   const status = (error as AppError).status || "error";
+  const errors = (error as AppError).errors;
 
   res.status(statusCode).json({
     success: false,
     status,
     message: error.message || "Something went wrong",
+    ...(errors?.length && { errors }),
     ...(process.env.NODE_ENV === "development" && {
       stack: err.stack,
     }),
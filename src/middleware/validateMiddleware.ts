@@ -0,0 +1,85 @@
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import { z } from "zod";
+import { AppError, FieldError } from "./errorMiddleware";
+
+export interface RequestSchemas {
+  params?: z.ZodType;
+  query?: z.ZodType;
+  body?: z.ZodType;
+}
+
+// המידלוור שומר את הסכמות כדי שמחולל התיעוד יוכל לקרוא אותן
+export type ValidationMiddleware = RequestHandler & { schemas: RequestSchemas };
+
+const LOCATIONS = ["params", "query", "body"] as const;
+
+/**
+ * Convert zod issues to field errors, expanding unknown keys to one error
+ * per key
+ */
+const toFieldErrors = (
+  error: z.ZodError,
+  location: FieldError["location"]
+): FieldError[] =>
+  error.issues.flatMap((issue) => {
+    const path = issue.path.map(String);
+    if (issue.code === "unrecognized_keys") {
+      return issue.keys.map((key) => ({
+        location,
+        field: [...path, key].join("."),
+        message: "Unknown field",
+      }));
+    }
+    return [{ location, field: path.join("."), message: issue.message }];
+  });
+
+/**
+ * Validate the params, query and body of a request against zod schemas.
+ * Every field error is collected into a single 400 response, and the parsed
+ * values (unknown query keys stripped, defaults applied) replace the raw ones
+ * @param schemas Schemas of the request parts to validate
+ * @returns Validation middleware
+ */
+export const validate = (schemas: RequestSchemas): ValidationMiddleware => {
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
+    const errors: FieldError[] = [];
+    const parsed: Partial<Record<(typeof LOCATIONS)[number], unknown>> = {};
+
+    for (const location of LOCATIONS) {
+      const schema = schemas[location];
+      if (!schema) {
+        continue;
+      }
+
+      const result = schema.safeParse(req[location] ?? {});
+      if (result.success) {
+        parsed[location] = result.data;
+      } else {
+        errors.push(...toFieldErrors(result.error, location));
+      }
+    }
+
+    if (errors.length) {
+      return next(AppError.badRequest("Invalid request data", errors));
+    }
+
+    if (parsed.params) {
+      req.params = parsed.params as Request["params"];
+    }
+    if (parsed.query) {
+      // ב-Express 5 req.query הוא getter ולכן מוגדר מחדש על הבקשה
+      Object.defineProperty(req, "query", {
+        value: parsed.query,
+        writable: true,
+        configurable: true,
+      });
+    }
+    if (parsed.body !== undefined) {
+      req.body = parsed.body;
+    }
+
+    next();
+  };
+
+  return Object.assign(middleware, { schemas });
+};
@@ -0,0 +1,48 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { AuditActionEnum } from "../types/enums";
+
+// ==================== AuditLog (יומן פעולות ניהול) Schema ====================
+export interface IAuditLog extends Document {
+  action: AuditActionEnum;
+  actorId?: mongoose.Types.ObjectId; // ריק כאשר המערכת ביצעה את הפעולה
+  targetUserId: mongoose.Types.ObjectId;
+  reason?: string;
+  metadata?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+const AuditLogSchema = new Schema<IAuditLog>(
+  {
+    action: {
+      type: String,
+      enum: Object.values(AuditActionEnum),
+      required: [true, "Please provide an action"],
+    },
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    targetUserId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Please provide a target user ID"],
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Reason cannot be more than 500 characters"],
+    },
+    metadata: {
+      type: Schema.Types.Mixed,
+    },
+  },
+  {
+    // רשומות היומן אינן מתעדכנות לאחר היצירה
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+//index by target user - used to show the audit trail of a user
+AuditLogSchema.index({ targetUserId: 1, createdAt: -1 });
+
+export default mongoose.model<IAuditLog>("AuditLog", AuditLogSchema);
@@ -3,10 +3,12 @@ import {
   SportCategoryEnum,
   ClubStatusEnum,
   UserRoleEnum,
+  ClubMemberRoleEnum,
 } from "../types/enums";
+import { PointSchema, GeoPoint, geoPointPlugin } from "../utils/geo";
 
 // ==================== Club (קהילה) Schema ====================
-interface IClub extends Document {
+export interface IClub extends Document {
   name: string;
   description: string;
   admin: mongoose.Types.ObjectId;
@@ -21,6 +23,21 @@ interface IClub extends Document {
     matchesCount?: number;
   }[];
   pendingRequests: { userId: mongoose.Types.ObjectId; role: string }[];
+  invitations: {
+    userId: mongoose.Types.ObjectId;
+    invitedBy: mongoose.Types.ObjectId;
+    role: ClubMemberRoleEnum;
+    createdAt: Date;
+  }[];
+  inviteCodes: {
+    code: string;
+    createdBy: mongoose.Types.ObjectId;
+    role: ClubMemberRoleEnum;
+    expiresAt: Date;
+    maxUses: number;
+    uses: number;
+  }[];
+  bannedUsers: mongoose.Types.ObjectId[]; // משתמשים שהורחקו ואינם יכולים לבקש להצטרף
   sportCategory: SportCategoryEnum;
   image: string;
   status: ClubStatusEnum;
@@ -32,6 +49,7 @@ interface IClub extends Document {
     address: string;
     lat: number;
     lng: number;
+    point?: GeoPoint;
   };
   createdAt: Date;
   updatedAt: Date;
@@ -104,6 +122,66 @@ const ClubSchema = new Schema<IClub>(
         },
       },
     ],
+    invitations: [
+      {
+        userId: {
+          type: Schema.Types.ObjectId,
+          ref: "User",
+        },
+        invitedBy: {
+          type: Schema.Types.ObjectId,
+          ref: "User",
+        },
+        role: {
+          type: String,
+          enum: Object.values(ClubMemberRoleEnum),
+          default: ClubMemberRoleEnum.USER,
+        },
+        createdAt: {
+          type: Date,
+          default: Date.now,
+        },
+      },
+    ],
+    // קודי הזמנה לשיתוף - לא נשלחים ללקוח אלא למנהלים דרך ניתוב ייעודי
+    inviteCodes: {
+      type: [
+        {
+          code: {
+            type: String,
+            required: true,
+          },
+          createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: "User",
+          },
+          role: {
+            type: String,
+            enum: Object.values(ClubMemberRoleEnum),
+            default: ClubMemberRoleEnum.USER,
+          },
+          expiresAt: {
+            type: Date,
+            required: true,
+          },
+          maxUses: {
+            type: Number,
+            required: true,
+            min: [1, "Invite code must allow at least 1 use"],
+          },
+          uses: {
+            type: Number,
+            default: 0,
+          },
+        },
+      ],
+      select: false,
+    },
+    bannedUsers: {
+      type: [Schema.Types.ObjectId],
+      ref: "User",
+      default: [],
+    },
     image: {
       type: String,
       default: "default-club.jpg",
@@ -137,10 +215,15 @@ const ClubSchema = new Schema<IClub>(
       },
       lat: {
         type: Number,
+        min: [-90, "Latitude must be between -90 and 90"],
+        max: [90, "Latitude must be between -90 and 90"],
       },
       lng: {
         type: Number,
+        min: [-180, "Longitude must be between -180 and 180"],
+        max: [180, "Longitude must be between -180 and 180"],
       },
+      point: PointSchema,
     },
   },
   {
@@ -148,4 +231,14 @@ const ClubSchema = new Schema<IClub>(
   }
 );
 
+// סנכרון נקודת GeoJSON מתוך lat/lng
+ClubSchema.plugin(geoPointPlugin);
+
+//index by location - used by "near me" searches
+ClubSchema.index({ "location.point": "2dsphere" });
+//index by invite code - used to join a club by code
+ClubSchema.index({ "inviteCodes.code": 1 });
+//index by invited user - used to list the invitations of a user
+ClubSchema.index({ "invitations.userId": 1 });
+
 export default mongoose.model<IClub>("Club", ClubSchema);
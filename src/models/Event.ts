@@ -1,5 +1,6 @@
 import mongoose, { Document, Schema } from "mongoose";
-import { SportCategoryEnum } from "../types/enums";
+import { SportCategoryEnum, EventStatusEnum } from "../types/enums";
+import { PointSchema, GeoPoint, geoPointPlugin } from "../utils/geo";
 
 // ממשק דינמי לקבוצות
 interface ITeam {
@@ -17,6 +18,7 @@ interface IEvent extends Document {
     address: string;
     lat: number;
     lng: number;
+    point?: GeoPoint;
   };
   image: string;
   time: {
@@ -24,11 +26,18 @@ interface IEvent extends Document {
     end: Date;
   };
   teams: Map<string, mongoose.Types.ObjectId[]>;
-  status: "upcoming" | "ongoing" | "completed";
+  teamsLocked: boolean; // קבוצות נעולות לא ניתנות ליצירה מחדש או להחלפות
+  participants: mongoose.Types.ObjectId[]; // שחקנים רשומים
+  waitlist: mongoose.Types.ObjectId[]; // רשימת המתנה לפי סדר ההרשמה
+  status: EventStatusEnum;
+  cancellationReason?: string;
   sportCategory: SportCategoryEnum;
   maxParticipants: number;
   minParticipantsToStart: number;
+  cancelCutoffMinutes: number; // כמה דקות לפני ההתחלה נבדק מספר המשתתפים המינימלי
   cost: number;
+  seriesId?: mongoose.Types.ObjectId; // סדרה חוזרת שהאירוע שייך אליה
+  isSeriesException: boolean; // מופע שנערך בנפרד משאר הסדרה
   createdAt: Date;
   updatedAt: Date;
 }
@@ -65,10 +74,15 @@ const EventSchema = new Schema<IEvent>(
       lat: {
         type: Number,
         required: [true, "Please provide a latitude"],
+        min: [-90, "Latitude must be between -90 and 90"],
+        max: [90, "Latitude must be between -90 and 90"],
       },
       lng: {
         type: Number,
+        min: [-180, "Longitude must be between -180 and 180"],
+        max: [180, "Longitude must be between -180 and 180"],
       },
+      point: PointSchema,
     },
     image: {
       type: String,
@@ -94,10 +108,32 @@ const EventSchema = new Schema<IEvent>(
       ],
       default: new Map(),
     },
+    teamsLocked: {
+      type: Boolean,
+      default: false,
+    },
+    participants: {
+      type: [Schema.Types.ObjectId],
+      ref: "User",
+      default: [],
+    },
+    waitlist: {
+      type: [Schema.Types.ObjectId],
+      ref: "User",
+      default: [],
+    },
     status: {
       type: String,
-      enum: ["upcoming", "ongoing", "completed"],
-      default: "upcoming",
+      enum: Object.values(EventStatusEnum),
+      default: EventStatusEnum.UPCOMING,
+    },
+    cancellationReason: {
+      type: String,
+      trim: true,
+      maxlength: [
+        200,
+        "Cancellation reason cannot be more than 200 characters",
+      ],
     },
     sportCategory: {
       type: String,
@@ -112,20 +148,48 @@ const EventSchema = new Schema<IEvent>(
       type: Number,
       default: 2,
     },
+    cancelCutoffMinutes: {
+      type: Number,
+      default: 60,
+      min: [0, "Cancel cutoff cannot be negative"],
+    },
     cost: {
       type: Number,
       default: 0,
     },
+    seriesId: {
+      type: Schema.Types.ObjectId,
+      ref: "EventSeries",
+    },
+    isSeriesException: {
+      type: Boolean,
+      default: false,
+    },
   },
   {
     timestamps: true,
   }
 );
 
+// סנכרון נקודת GeoJSON מתוך lat/lng
+EventSchema.plugin(geoPointPlugin);
+
 //index by clubId
 EventSchema.index({ clubId: 1 });
 
+//index by location - used by "near me" searches
+EventSchema.index({ "location.point": "2dsphere" });
+
 //index by status
 EventSchema.index({ status: 1 });
 
+//index by field and start time - used to detect double bookings
+EventSchema.index({ fieldId: 1, "time.start": 1 });
+
+//index by series and start time
+EventSchema.index({ seriesId: 1, "time.start": 1 });
+
+//index by status and start time - used by the status scheduler
+EventSchema.index({ status: 1, "time.start": 1 });
+
 export default mongoose.model<IEvent>("Event", EventSchema);
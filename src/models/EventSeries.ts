@@ -0,0 +1,145 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { SportCategoryEnum, RecurrenceFrequencyEnum } from "../types/enums";
+
+// ==================== EventSeries (סדרת אירועים חוזרים) Schema ====================
+export interface IEventSeries extends Document {
+  clubId: mongoose.Types.ObjectId;
+  createdBy: mongoose.Types.ObjectId;
+  sportCategory: SportCategoryEnum;
+  // הנתונים שמועתקים לכל מופע בסדרה
+  template: {
+    name: string;
+    description: string;
+    fieldId: mongoose.Types.ObjectId;
+    location: {
+      address: string;
+      lat: number;
+      lng: number;
+    };
+    image?: string;
+    maxParticipants?: number;
+    minParticipantsToStart?: number;
+    cancelCutoffMinutes?: number;
+    cost?: number;
+  };
+  recurrence: {
+    frequency: RecurrenceFrequencyEnum;
+    weekdays: number[]; // 0 = ראשון ... 6 = שבת
+    interval: number; // מספר השבועות בין מחזור למחזור
+    until?: Date;
+    count?: number;
+  };
+  firstStart: Date;
+  durationMinutes: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const EventSeriesSchema = new Schema<IEventSeries>(
+  {
+    clubId: {
+      type: Schema.Types.ObjectId,
+      ref: "Club",
+      required: [true, "Please provide a club ID"],
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    sportCategory: {
+      type: String,
+      enum: Object.values(SportCategoryEnum),
+      required: [true, "Please provide a sport category"],
+    },
+    template: {
+      name: {
+        type: String,
+        required: [true, "Please provide an event name"],
+        trim: true,
+        maxlength: [50, "Event name cannot be more than 50 characters"],
+      },
+      description: {
+        type: String,
+        required: [true, "Please provide an event description"],
+        trim: true,
+        maxlength: [1000, "Description cannot be more than 1000 characters"],
+      },
+      fieldId: {
+        type: Schema.Types.ObjectId,
+        ref: "Field",
+        required: [true, "Please provide a field ID"],
+      },
+      location: {
+        address: {
+          type: String,
+          required: [true, "Please provide an address"],
+        },
+        lat: {
+          type: Number,
+          required: [true, "Please provide a latitude"],
+          min: [-90, "Latitude must be between -90 and 90"],
+          max: [90, "Latitude must be between -90 and 90"],
+        },
+        lng: {
+          type: Number,
+          min: [-180, "Longitude must be between -180 and 180"],
+          max: [180, "Longitude must be between -180 and 180"],
+        },
+      },
+      image: String,
+      maxParticipants: Number,
+      minParticipantsToStart: Number,
+      cancelCutoffMinutes: Number,
+      cost: Number,
+    },
+    recurrence: {
+      frequency: {
+        type: String,
+        enum: Object.values(RecurrenceFrequencyEnum),
+        required: [true, "Please provide a recurrence frequency"],
+      },
+      weekdays: {
+        type: [Number],
+        validate: {
+          validator: function (weekdays: number[]) {
+            return weekdays.every(
+              (day) => Number.isInteger(day) && day >= 0 && day <= 6
+            );
+          },
+          message: "Weekdays must be numbers between 0 (Sunday) and 6",
+        },
+        default: [],
+      },
+      interval: {
+        type: Number,
+        min: [1, "Interval must be at least 1 week"],
+        default: 1,
+      },
+      until: {
+        type: Date,
+      },
+      count: {
+        type: Number,
+        min: [1, "Count must be at least 1"],
+      },
+    },
+    firstStart: {
+      type: Date,
+      required: [true, "Please provide the first start time"],
+    },
+    durationMinutes: {
+      type: Number,
+      required: [true, "Please provide the event duration"],
+      min: [1, "Duration must be at least 1 minute"],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+//index by clubId
+EventSeriesSchema.index({ clubId: 1 });
+
+export default mongoose.model<IEventSeries>("EventSeries", EventSeriesSchema);
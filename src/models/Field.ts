@@ -0,0 +1,166 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { SportCategoryEnum, FieldSurfaceEnum } from "../types/enums";
+import { PointSchema, GeoPoint, geoPointPlugin } from "../utils/geo";
+
+// ==================== Field (מגרש) Schema ====================
+export interface IField extends Document {
+  name: string;
+  description: string;
+  createdBy: mongoose.Types.ObjectId;
+  location: {
+    country: string;
+    city: string;
+    address: string;
+    lat: number;
+    lng: number;
+    point?: GeoPoint;
+  };
+  surface: FieldSurfaceEnum;
+  isIndoor: boolean;
+  sportCategories: SportCategoryEnum[];
+  capacity: number; // מספר השחקנים המרבי במגרש
+  openingHours: {
+    day: number; // 0 = ראשון ... 6 = שבת
+    open: string; // HH:mm
+    close: string; // HH:mm
+  }[];
+  pricePerHour: number;
+  image: string;
+  // נעילה קצרה שמונעת הזמנות חופפות בבקשות מקבילות
+  bookingLock?: {
+    id: string;
+    expiresAt: Date;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TIME_OF_DAY_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const FieldSchema = new Schema<IField>(
+  {
+    name: {
+      type: String,
+      required: [true, "Please provide a field name"],
+      trim: true,
+      maxlength: [50, "Field name cannot be more than 50 characters"],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Description cannot be more than 500 characters"],
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    location: {
+      country: {
+        type: String,
+        trim: true,
+      },
+      city: {
+        type: String,
+        trim: true,
+      },
+      address: {
+        type: String,
+        required: [true, "Please provide an address"],
+        trim: true,
+      },
+      lat: {
+        type: Number,
+        required: [true, "Please provide a latitude"],
+        min: [-90, "Latitude must be between -90 and 90"],
+        max: [90, "Latitude must be between -90 and 90"],
+      },
+      lng: {
+        type: Number,
+        required: [true, "Please provide a longitude"],
+        min: [-180, "Longitude must be between -180 and 180"],
+        max: [180, "Longitude must be between -180 and 180"],
+      },
+      point: PointSchema,
+    },
+    surface: {
+      type: String,
+      enum: Object.values(FieldSurfaceEnum),
+      default: FieldSurfaceEnum.OTHER,
+    },
+    isIndoor: {
+      type: Boolean,
+      default: false,
+    },
+    sportCategories: {
+      type: [String],
+      enum: Object.values(SportCategoryEnum),
+      validate: {
+        validator: function (categories: string[]) {
+          return categories.length > 0;
+        },
+        message: "Please provide at least one sport category",
+      },
+    },
+    capacity: {
+      type: Number,
+      min: [2, "Field capacity must be at least 2 players"],
+    },
+    openingHours: [
+      {
+        day: {
+          type: Number,
+          required: true,
+          min: [0, "Day must be between 0 (Sunday) and 6"],
+          max: [6, "Day must be between 0 (Sunday) and 6"],
+        },
+        open: {
+          type: String,
+          required: true,
+          match: [TIME_OF_DAY_REGEX, "Opening time must be in HH:mm format"],
+        },
+        close: {
+          type: String,
+          required: true,
+          match: [TIME_OF_DAY_REGEX, "Closing time must be in HH:mm format"],
+        },
+      },
+    ],
+    pricePerHour: {
+      type: Number,
+      default: 0,
+      min: [0, "Price cannot be negative"],
+    },
+    image: {
+      type: String,
+      default: "default-field.jpg",
+    },
+    bookingLock: {
+      id: String,
+      expiresAt: Date,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function (doc, ret) {
+        delete ret.bookingLock;
+        return ret;
+      },
+    },
+  }
+);
+
+// סנכרון נקודת GeoJSON מתוך lat/lng
+FieldSchema.plugin(geoPointPlugin);
+
+//index by city
+FieldSchema.index({ "location.city": 1 });
+
+//index by location - used by "near me" searches
+FieldSchema.index({ "location.point": "2dsphere" });
+
+//index by sport category
+FieldSchema.index({ sportCategories: 1 });
+
+export default mongoose.model<IField>("Field", FieldSchema);
@@ -1,21 +1,35 @@
 import mongoose, { Document, Schema } from "mongoose";
-import { SportCategoryEnum } from "../types/enums";
+import { SportCategoryEnum, MatchStatusEnum } from "../types/enums";
+
+// תרומת שחקן לסטטיסטיקות כפי שנרשמה בסיום המשחק
+export interface IMatchPlayerStats {
+  userId: mongoose.Types.ObjectId;
+  team: string;
+  goals: number;
+  assists: number;
+  points: number;
+}
 
 // ממשק בסיסי למשחק
-interface IMatchBase extends Document {
+export interface IMatchBase extends Document {
+  _id: mongoose.Types.ObjectId;
   eventId: mongoose.Types.ObjectId;
   clubId: mongoose.Types.ObjectId;
   sportCategory: SportCategoryEnum;
   teams: [string, string];
   result: [number, number];
+  status: MatchStatusEnum;
+  finalizedAt?: Date;
+  appliedStats: IMatchPlayerStats[]; // מה שנוסף לסטטיסטיקות - לביטול בעריכה/מחיקה
   createdAt: Date;
   updatedAt: Date;
 }
 
 // ממשק למשחק כדורגל
-interface IFootballMatch extends IMatchBase {
+export interface IFootballMatch extends IMatchBase {
   sportCategory: SportCategoryEnum.FOOTBALL;
-  goals: Array<{
+  goals: mongoose.Types.DocumentArray<{
+    _id: mongoose.Types.ObjectId;
     scorer: mongoose.Types.ObjectId;
     assist?: mongoose.Types.ObjectId;
     team: string;
@@ -25,9 +39,9 @@ interface IFootballMatch extends IMatchBase {
 }
 
 // ממשק למשחק כדורסל
-interface IBasketballMatch extends IMatchBase {
+export interface IBasketballMatch extends IMatchBase {
   sportCategory: SportCategoryEnum.BASKETBALL;
-  teamStats: Record<
+  teamStats: Map<
     string,
     Array<{
       playerId: mongoose.Types.ObjectId;
@@ -73,17 +87,48 @@ const MatchBaseSchemaFields = {
     },
     default: [0, 0],
   },
+  status: {
+    type: String,
+    enum: Object.values(MatchStatusEnum),
+    default: MatchStatusEnum.IN_PROGRESS,
+  },
+  finalizedAt: {
+    type: Date,
+  },
+  appliedStats: {
+    type: [
+      {
+        _id: false,
+        userId: {
+          type: Schema.Types.ObjectId,
+          ref: "User",
+          required: true,
+        },
+        team: {
+          type: String,
+          required: true,
+        },
+        goals: {
+          type: Number,
+          default: 0,
+        },
+        assists: {
+          type: Number,
+          default: 0,
+        },
+        points: {
+          type: Number,
+          default: 0,
+        },
+      },
+    ],
+    default: [],
+  },
 };
 
 // סכמה למשחק כדורגל
 const FootballMatchSchema = new Schema(
   {
-    ...MatchBaseSchemaFields,
-    sportCategory: {
-      type: String,
-      enum: [SportCategoryEnum.FOOTBALL],
-      required: [true, "This is a football match"],
-    },
     goals: [
       {
         scorer: {
@@ -114,12 +159,6 @@ const FootballMatchSchema = new Schema(
 // סכמה למשחק כדורסל
 const BasketballMatchSchema = new Schema(
   {
-    ...MatchBaseSchemaFields,
-    sportCategory: {
-      type: String,
-      enum: [SportCategoryEnum.BASKETBALL],
-      required: [true, "This is a basketball match"],
-    },
     teamStats: {
       type: Map,
       of: [
@@ -132,6 +171,7 @@ const BasketballMatchSchema = new Schema(
           points: {
             type: Number,
             default: 0,
+            min: [0, "Points cannot be negative"],
           },
         },
       ],
@@ -143,26 +183,61 @@ const BasketballMatchSchema = new Schema(
   }
 );
 
-const MatchSchema = new Schema({}, { discriminatorKey: "sportCategory" });
+const MatchSchema = new Schema(MatchBaseSchemaFields, {
+  discriminatorKey: "sportCategory",
+  timestamps: true,
+  // שמירות מקבילות של אותו משחק נדחות במקום לדרוס זו את זו
+  optimisticConcurrency: true,
+});
 //index by eventId
 MatchSchema.index({ eventId: 1 });
 //index by clubId
 MatchSchema.index({ clubId: 1 });
+//index by finalized stats of a player
+MatchSchema.index({ "appliedStats.userId": 1, status: 1 });
 // יצירת המודל הבסיסי
-const Match = mongoose.model("Match", MatchSchema);
+const Match = mongoose.model<IMatchBase>("Match", MatchSchema);
 
 // יצירת המודלים הספציפיים עם אינדקסים ספציפיים
 
+// התוצאה מחושבת מהגולים ולא מוזנת ידנית
+FootballMatchSchema.pre("validate", function (next) {
+  const match = this as unknown as IFootballMatch;
+  match.result = [0, 1].map(
+    (index) =>
+      match.goals.filter((goal) => goal.team === match.teams[index]).length
+  ) as [number, number];
+  next();
+});
+
+// התוצאה מחושבת מסכום הנקודות של השחקנים בכל קבוצה
+BasketballMatchSchema.pre("validate", function (next) {
+  const match = this as unknown as IBasketballMatch;
+  match.result = [0, 1].map((index) =>
+    (match.teamStats.get(match.teams[index]) || []).reduce(
+      (sum, stat) => sum + stat.points,
+      0
+    )
+  ) as [number, number];
+  next();
+});
+
 // אינדקס על scorer בגולים למשחקי כדורגל - לחיפוש מהיר של כל הגולים של שחקן ספציפי
 FootballMatchSchema.index({ "goals.scorer": 1 });
 
 // אינדקס על assist בגולים - לחיפוש מהיר של כל האסיסטים של שחקן ספציפי
 FootballMatchSchema.index({ "goals.assist": 1 });
 
-const FootballMatch = Match.discriminator("FootballMatch", FootballMatchSchema);
-const BasketballMatch = Match.discriminator(
+// ערך המפריד הוא קטגוריית הספורט עצמה
+const FootballMatch = Match.discriminator<IFootballMatch>(
+  "FootballMatch",
+  FootballMatchSchema,
+  SportCategoryEnum.FOOTBALL
+);
+const BasketballMatch = Match.discriminator<IBasketballMatch>(
   "BasketballMatch",
-  BasketballMatchSchema
+  BasketballMatchSchema,
+  SportCategoryEnum.BASKETBALL
 );
 
 export { Match, FootballMatch, BasketballMatch };
@@ -0,0 +1,59 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// ==================== PlayerRating (דירוג עמיתים) Schema ====================
+export interface IPlayerRating extends Document {
+  eventId: mongoose.Types.ObjectId;
+  clubId: mongoose.Types.ObjectId;
+  raterId: mongoose.Types.ObjectId;
+  ratedId: mongoose.Types.ObjectId;
+  rating: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PlayerRatingSchema = new Schema<IPlayerRating>(
+  {
+    eventId: {
+      type: Schema.Types.ObjectId,
+      ref: "Event",
+      required: [true, "Please provide an event ID"],
+    },
+    clubId: {
+      type: Schema.Types.ObjectId,
+      ref: "Club",
+      required: [true, "Please provide a club ID"],
+    },
+    raterId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Please provide the rating user"],
+    },
+    ratedId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Please provide the rated user"],
+    },
+    rating: {
+      type: Number,
+      required: [true, "Please provide a rating"],
+      min: [1, "Rating must be at least 1"],
+      max: [10, "Rating must be at most 10"],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// דירוג אחד לכל זוג שחקנים בכל אירוע
+PlayerRatingSchema.index(
+  { eventId: 1, raterId: 1, ratedId: 1 },
+  { unique: true }
+);
+//index by rated player in a club - used to recalculate skillRating
+PlayerRatingSchema.index({ ratedId: 1, clubId: 1 });
+
+export default mongoose.model<IPlayerRating>(
+  "PlayerRating",
+  PlayerRatingSchema
+);
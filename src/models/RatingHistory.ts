@@ -0,0 +1,59 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { SportCategoryEnum } from "../types/enums";
+
+// ==================== RatingHistory (היסטוריית דירוג Elo) Schema ====================
+export interface IRatingHistory extends Document {
+  userId: mongoose.Types.ObjectId;
+  sportCategory: SportCategoryEnum;
+  matchId: mongoose.Types.ObjectId;
+  ratingBefore: number;
+  ratingAfter: number;
+  delta: number; // נשמר כדי לבטל את השינוי בעריכה או מחיקה של המשחק
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RatingHistorySchema = new Schema<IRatingHistory>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Please provide a user ID"],
+    },
+    sportCategory: {
+      type: String,
+      enum: Object.values(SportCategoryEnum),
+      required: [true, "Please provide a sport category"],
+    },
+    matchId: {
+      type: Schema.Types.ObjectId,
+      ref: "Match",
+      required: [true, "Please provide a match ID"],
+    },
+    ratingBefore: {
+      type: Number,
+      required: true,
+    },
+    ratingAfter: {
+      type: Number,
+      required: true,
+    },
+    delta: {
+      type: Number,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+//index by user and sport - used to show the rating history
+RatingHistorySchema.index({ userId: 1, sportCategory: 1, createdAt: -1 });
+//index by matchId - used to reverse the changes of a match
+RatingHistorySchema.index({ matchId: 1 });
+
+export default mongoose.model<IRatingHistory>(
+  "RatingHistory",
+  RatingHistorySchema
+);
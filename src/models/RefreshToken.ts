@@ -0,0 +1,66 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// ==================== RefreshToken (טוקן רענון של סשן) Schema ====================
+export interface IRefreshToken extends Document {
+  userId: mongoose.Types.ObjectId;
+  tokenHash: string; // נשמר רק ה-hash - הטוקן עצמו נמסר ללקוח בלבד
+  family: string; // כל הטוקנים שנוצרו בסבב מאותה התחברות
+  expiresAt: Date;
+  revokedAt?: Date;
+  replacedBy?: mongoose.Types.ObjectId; // הטוקן שהחליף אותו בסבב
+  createdByIp?: string;
+  userAgent?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RefreshTokenSchema = new Schema<IRefreshToken>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Please provide a user ID"],
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    family: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    replacedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "RefreshToken",
+    },
+    createdByIp: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+//TTL index - expired tokens are removed automatically
+RefreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+//index by user - used to revoke all the sessions of a user
+RefreshTokenSchema.index({ userId: 1 });
+//index by family - used to revoke a session when a token is reused
+RefreshTokenSchema.index({ family: 1 });
+
+export default mongoose.model<IRefreshToken>(
+  "RefreshToken",
+  RefreshTokenSchema
+);
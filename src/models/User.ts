@@ -8,6 +8,8 @@ import {
   basketballPositionsEnum,
   AccountStatusEnum,
 } from "../types/enums";
+import { PointSchema, GeoPoint, geoPointPlugin } from "../utils/geo";
+import { INITIAL_ELO_RATING } from "../utils/rating";
 const currentYear = new Date().getFullYear();
 
 // ממשק בסיסי משותף למשתמשים
@@ -26,6 +28,14 @@ interface IUserBase extends Document {
   avgSkillRating: number;
   email: string;
   isEmailVerified: boolean;
+  // הטוקן הפעיל לאימות האימייל (hash בלבד) ומגבלת השליחות החוזרות
+  emailVerification?: {
+    tokenHash?: string;
+    expiresAt?: Date;
+    lastSentAt?: Date;
+    windowStartedAt?: Date;
+    sentCount: number;
+  };
   phone: {
     prefix: string;
     number: string;
@@ -33,21 +43,39 @@ interface IUserBase extends Document {
   country: string;
   city: string;
   password: string;
+  // בקשת איפוס הסיסמה הפעילה - נשמר רק ה-hash של הטוקן
+  passwordReset?: {
+    tokenHash?: string;
+    expiresAt?: Date;
+    requestedAt?: Date;
+  };
+  tokenVersion: number; // העלאת הגרסה פוסלת את כל טוקני הגישה של המשתמש
   accountStatus: AccountStatusEnum;
+  // הסטטוס שאליו החשבון חוזר בסיום נעילה או השעיה
+  previousAccountStatus?: AccountStatusEnum;
+  statusReason?: string; // סיבת ההשעיה שנקבעה על ידי מנהל המערכת
+  failedLoginAttempts: number;
+  lockedUntil?: Date; // נעילה זמנית לאחר ניסיונות התחברות כושלים
   location: {
     lat: number;
     lng: number;
+    point?: GeoPoint;
   };
   favoriteFields: mongoose.Types.ObjectId[];
   friends: mongoose.Types.ObjectId[];
   friendRequests: mongoose.Types.ObjectId[];
   clubs: mongoose.Types.ObjectId[];
   clubsRequests: mongoose.Types.ObjectId[];
+  clubsInvitations: mongoose.Types.ObjectId[];
   totalStats: {
     totalGames: number;
     totalPoints: number;
     totalAssists: number;
   };
+  sportRatings: Record<
+    SportCategoryEnum,
+    { rating: number; matchesCount: number }
+  >;
   subscriptions: {
     clubIds: mongoose.Types.ObjectId[];
     maxClubs: number;
@@ -218,6 +246,19 @@ const UserSchema: Schema = new Schema(
       type: Boolean,
       default: false,
     },
+    emailVerification: {
+      type: new Schema(
+        {
+          tokenHash: String,
+          expiresAt: Date,
+          lastSentAt: Date,
+          windowStartedAt: Date,
+          sentCount: { type: Number, default: 0 },
+        },
+        { _id: false }
+      ),
+      select: false,
+    },
     phone: {
       prefix: {
         type: String,
@@ -257,14 +298,59 @@ const UserSchema: Schema = new Schema(
       minlength: [6, "Password must be at least 6 characters"],
       select: false,
     },
+    passwordReset: {
+      type: new Schema(
+        {
+          tokenHash: String,
+          expiresAt: Date,
+          requestedAt: Date,
+        },
+        { _id: false }
+      ),
+      select: false,
+    },
+    tokenVersion: {
+      type: Number,
+      default: 0,
+      select: false,
+    },
     accountStatus: {
       type: String,
       enum: Object.values(AccountStatusEnum),
       default: AccountStatusEnum.ACTIVE,
     },
+    previousAccountStatus: {
+      type: String,
+      enum: Object.values(AccountStatusEnum),
+      select: false,
+    },
+    statusReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Status reason cannot be more than 500 characters"],
+      select: false,
+    },
+    failedLoginAttempts: {
+      type: Number,
+      default: 0,
+      select: false,
+    },
+    lockedUntil: {
+      type: Date,
+      select: false,
+    },
     location: {
-      lat: Number,
-      lng: Number,
+      lat: {
+        type: Number,
+        min: [-90, "Latitude must be between -90 and 90"],
+        max: [90, "Latitude must be between -90 and 90"],
+      },
+      lng: {
+        type: Number,
+        min: [-180, "Longitude must be between -180 and 180"],
+        max: [180, "Longitude must be between -180 and 180"],
+      },
+      point: PointSchema,
     },
     favoriteFields: {
       type: [Schema.Types.ObjectId],
@@ -291,6 +377,11 @@ const UserSchema: Schema = new Schema(
       ref: "Club",
       default: [],
     },
+    clubsInvitations: {
+      type: [Schema.Types.ObjectId],
+      ref: "Club",
+      default: [],
+    },
     totalStats: {
       totalGames: {
         type: Number,
@@ -305,6 +396,17 @@ const UserSchema: Schema = new Schema(
         default: 0,
       },
     },
+    // דירוג Elo לכל ענף ספורט, מחושב מתוצאות המשחקים
+    sportRatings: {
+      football: {
+        rating: { type: Number, default: INITIAL_ELO_RATING },
+        matchesCount: { type: Number, default: 0 },
+      },
+      basketball: {
+        rating: { type: Number, default: INITIAL_ELO_RATING },
+        matchesCount: { type: Number, default: 0 },
+      },
+    },
     role: {
       type: String,
       enum: Object.values(UserRoleEnum),
@@ -351,6 +453,12 @@ const UserSchema: Schema = new Schema(
       virtuals: true,
       transform: function (doc, ret) {
         delete ret.password;
+        delete ret.tokenVersion;
+        delete ret.emailVerification;
+        delete ret.passwordReset;
+        delete ret.failedLoginAttempts;
+        delete ret.lockedUntil;
+        delete ret.previousAccountStatus;
         return ret;
       },
     },
@@ -358,6 +466,12 @@ const UserSchema: Schema = new Schema(
       virtuals: true,
       transform: function (doc, ret) {
         delete ret.password;
+        delete ret.tokenVersion;
+        delete ret.emailVerification;
+        delete ret.passwordReset;
+        delete ret.failedLoginAttempts;
+        delete ret.lockedUntil;
+        delete ret.previousAccountStatus;
         return ret;
       },
     },
@@ -406,6 +520,14 @@ UserSchema.pre("save", async function (this: UserDocument, next) {
   next();
 });
 
+// סנכרון נקודת GeoJSON מתוך lat/lng
+UserSchema.plugin(geoPointPlugin);
+UserSchema.index({ "location.point": "2dsphere" });
+
+// שליפה לפי hash של טוקני אימות ואיפוס
+UserSchema.index({ "emailVerification.tokenHash": 1 }, { sparse: true });
+UserSchema.index({ "passwordReset.tokenHash": 1 }, { sparse: true });
+
 // Validators
 UserSchema.path("email").validate(async function (email: string) {
   const user = this;
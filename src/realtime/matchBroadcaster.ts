@@ -0,0 +1,71 @@
+import { Server } from "socket.io";
+
+export type MatchUpdateType =
+  | "goalAdded"
+  | "goalRemoved"
+  | "pointsUpdated"
+  | "finalized";
+
+let io: Server | null = null;
+
+// שם החדר של משחק - כל מי שצופה במשחק מצטרף אליו
+export const matchRoom = (matchId: string) => `match:${matchId}`;
+
+// חדר אישי של משתמש - כל החיבורים הפתוחים שלו
+export const userRoom = (userId: string) => `user:${userId}`;
+
+/**
+ * Register the socket server used for broadcasting
+ * @param server Socket.IO server, or null to stop broadcasting
+ */
+export const setRealtimeServer = (server: Server | null) => {
+  io = server;
+};
+
+/**
+ * Send the new score and entries of a match to everyone watching it.
+ * Does nothing when the realtime server is not running.
+ * @param type What changed in the match
+ * @param match Updated match
+ */
+export const broadcastMatchUpdate = (type: MatchUpdateType, match: any) => {
+  if (!io) {
+    return;
+  }
+
+  const matchId = match._id.toString();
+  io.to(matchRoom(matchId)).emit("match:update", {
+    type,
+    matchId,
+    result: match.result,
+    status: match.status,
+    match,
+  });
+};
+
+/**
+ * Tell everyone watching a match that it was deleted
+ * @param matchId Match ID
+ */
+export const broadcastMatchDeleted = (matchId: string) => {
+  if (!io) {
+    return;
+  }
+
+  io.to(matchRoom(matchId)).emit("match:deleted", { matchId });
+};
+
+/**
+ * Close every open connection of a user whose sessions were revoked
+ * (logout from all devices, suspension or lock). The client has to
+ * reconnect with a valid token
+ * @param userId User ID
+ */
+export const disconnectUserSockets = (userId: string) => {
+  if (!io) {
+    return;
+  }
+
+  io.to(userRoom(userId)).emit("session:revoked");
+  io.in(userRoom(userId)).disconnectSockets(true);
+};
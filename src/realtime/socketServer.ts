@@ -0,0 +1,190 @@
+import http from "http";
+import { Server, Socket } from "socket.io";
+import {
+  authenticateToken,
+  AuthenticatedUser,
+} from "../middleware/authMiddleware";
+import {
+  matchService,
+  GoalInput,
+  PlayerPointsInput,
+} from "../services/matchService";
+import { matchRoom, setRealtimeServer, userRoom } from "./matchBroadcaster";
+
+type Ack = (response: {
+  success: boolean;
+  data?: any;
+  message?: string;
+  code?: "token_failed"; // הלקוח צריך להתחבר מחדש עם טוקן תקף
+}) => void;
+
+interface AuthenticatedSocket extends Socket {
+  data: { user: AuthenticatedUser; token: string };
+}
+
+const TOKEN_FAILED_MESSAGE = "Not authorized, token failed";
+
+/**
+ * Check the token of a connection again - a token that expired or was
+ * revoked since it was presented is refused
+ * @param socket Connected socket
+ * @returns true if the token is still valid
+ */
+const reauthenticate = async (socket: AuthenticatedSocket) => {
+  try {
+    socket.data.user = await authenticateToken(socket.data.token);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// הרצת פעולה של לקוח לאחר אימות מחדש והחזרת התוצאה או השגיאה ב-ack
+const handle =
+  <T>(
+    socket: AuthenticatedSocket,
+    operation: (payload: T) => Promise<any>
+  ) =>
+  async (payload: T, ack?: Ack) => {
+    // הלקוח מקבל את שגיאת האימות לפני שהחיבור נסגר
+    if (!(await reauthenticate(socket))) {
+      ack?.({
+        success: false,
+        message: TOKEN_FAILED_MESSAGE,
+        code: "token_failed",
+      });
+      socket.disconnect(true);
+      return;
+    }
+
+    try {
+      const data = await operation(payload);
+      ack?.({ success: true, data });
+    } catch (error) {
+      ack?.({
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Something went wrong",
+      });
+    }
+  };
+
+/**
+ * Attach the realtime channel to the HTTP server. Clients authenticate with
+ * the same JWT as the REST API (`auth.token` or a Bearer authorization
+ * header), join a room per match and receive `match:update` events whenever
+ * its goals or points change. The token is checked again on every client
+ * action, so clients send a refreshed access token with `session:refresh`
+ * before the current one expires. Revoking the user's sessions closes their
+ * connections.
+ * @param server HTTP server the Express app listens on
+ * @returns Socket.IO server
+ */
+export const initRealtime = (server: http.Server) => {
+  const io = new Server(server, {
+    cors: { origin: "*" },
+  });
+
+  // אימות בזמן ה-handshake - אותו JWT כמו ב-protect
+  io.use(async (socket, next) => {
+    const header = socket.handshake.headers.authorization;
+    const token =
+      socket.handshake.auth?.token ||
+      (header?.startsWith("Bearer") ? header.split(" ")[1] : undefined);
+
+    if (!token) {
+      return next(new Error("Not authorized, no token"));
+    }
+
+    try {
+      socket.data.user = await authenticateToken(token);
+      socket.data.token = token;
+      next();
+    } catch (error) {
+      next(new Error(TOKEN_FAILED_MESSAGE));
+    }
+  });
+
+  io.on("connection", (socket: AuthenticatedSocket) => {
+    const userId = socket.data.user.id;
+
+    // חדר אישי - מאפשר לנתק את כל החיבורים של המשתמש בביטול הסשנים
+    socket.join(userRoom(userId));
+
+    // החלפת הטוקן של החיבור בטוקן גישה מחודש - של אותו משתמש בלבד
+    socket.on(
+      "session:refresh",
+      async ({ token }: { token: string }, ack?: Ack) => {
+        try {
+          const user = await authenticateToken(token);
+          if (user.id !== userId) {
+            throw new Error("Token belongs to another user");
+          }
+          socket.data.user = user;
+          socket.data.token = token;
+          ack?.({ success: true });
+        } catch {
+          ack?.({
+            success: false,
+            message: TOKEN_FAILED_MESSAGE,
+            code: "token_failed",
+          });
+        }
+      }
+    );
+
+    // הצטרפות לחדר של משחק - חברי הקבוצה בלבד
+    socket.on(
+      "match:join",
+      handle(socket, async ({ matchId }: { matchId: string }) => {
+        const match = await matchService.getMatchById(matchId, userId);
+        if (!match) {
+          throw new Error(
+            "Match not found or you are not authorized to view this match"
+          );
+        }
+        await socket.join(matchRoom(matchId));
+        return match;
+      })
+    );
+
+    socket.on(
+      "match:leave",
+      handle(socket, async ({ matchId }: { matchId: string }) => {
+        await socket.leave(matchRoom(matchId));
+      })
+    );
+
+    // רישום תוצאות מהטלפון של הקפטן - העדכון נשלח לחדר מתוך השירות
+    socket.on(
+      "match:goal",
+      handle(
+        socket,
+        async ({ matchId, ...goal }: { matchId: string } & GoalInput) =>
+          matchService.addGoal(matchId, goal, userId)
+      )
+    );
+
+    socket.on(
+      "match:removeGoal",
+      handle(
+        socket,
+        async ({ matchId, goalId }: { matchId: string; goalId: string }) =>
+          matchService.removeGoal(matchId, goalId, userId)
+      )
+    );
+
+    socket.on(
+      "match:points",
+      handle(
+        socket,
+        async ({ matchId, ...stat }: { matchId: string } & PlayerPointsInput) =>
+          matchService.setPlayerPoints(matchId, stat, userId)
+      )
+    );
+  });
+
+  setRealtimeServer(io);
+
+  return io;
+};
@@ -10,19 +10,56 @@ import {
   cancelJoinRequest,
   acceptJoinRequest,
   rejectJoinRequest,
+  getNearbyClubs,
+  promoteCaptain,
+  demoteCaptain,
+  transferOwnership,
+  removeMember,
+  unbanMember,
+  inviteUser,
+  cancelInvitation,
+  getMyInvitations,
+  acceptInvitation,
+  declineInvitation,
+  createInviteCode,
+  getInviteCodes,
+  revokeInviteCode,
+  joinByCode,
 } from "../controllers/clubController";
 import { protect, authorize } from "../middleware/authMiddleware";
+import { validate } from "../middleware/validateMiddleware";
 import { UserRoleEnum } from "../types/enums";
+import { nearQuerySchema } from "../validation/common";
+import {
+  createClubSchema,
+  updateClubSchema,
+  clubListQuery,
+  joinRequestSchema,
+  removeMemberSchema,
+  inviteUserSchema,
+  createInviteCodeSchema,
+  clubIdParams,
+  clubParams,
+  clubMemberParams,
+  inviteCodeParams,
+  joinByCodeParams,
+} from "../validation/clubSchemas";
 
 const router: Router = express.Router();
 
 // כל הניתובים דורשים אימות
 router.use(protect);
 
+// חיפוש קבוצות פתוחות בקרבת המשתמש
+router.get("/near", validate({ query: nearQuerySchema }), getNearbyClubs);
+
+// ההזמנות של המשתמש המחובר
+router.get("/invitations", getMyInvitations);
+
 // ניתובים בסיסיים לקבוצות
 router
   .route("/")
-  .get(getAllClubs)
+  .get(validate({ query: clubListQuery }), getAllClubs)
   .post(
     authorize([
       UserRoleEnum.SILVER,
@@ -30,20 +67,109 @@ router
       UserRoleEnum.PREMIUM,
       UserRoleEnum.SUPER_ADMIN,
     ]),
+    validate({ body: createClubSchema }),
     createClub
   );
 
 router
   .route("/:id")
-  .get(getClubById)
-  .put(updateClub) // הרשאות ייבדקו בקונטרולר (מנהל/קפטן)
-  .delete(deleteClub); // הרשאות ייבדקו בקונטרולר (מנהל בלבד)
+  .get(validate({ params: clubIdParams }), getClubById)
+  .put(validate({ params: clubIdParams, body: updateClubSchema }), updateClub) // הרשאות ייבדקו בקונטרולר (מנהל/קפטן)
+  .delete(validate({ params: clubIdParams }), deleteClub); // הרשאות ייבדקו בקונטרולר (מנהל בלבד)
 
 // ניתובי בקשות חברות
-router.post("/leaveClub/:clubId", leaveClubRequest);
-router.post("/joinRequest/:clubId", joinClubRequest);
-router.post("/cancelJoinRequest/:clubId", cancelJoinRequest);
-router.post("/acceptJoinRequest/:clubId/:userId", acceptJoinRequest); // הרשאות ייבדקו בקונטרולר (מנהל/קפטן)
-router.post("/rejectJoinRequest/:clubId/:userId", rejectJoinRequest); // הרשאות ייבדקו בקונטרולר (מנהל/קפטן)
+router.post(
+  "/leaveClub/:clubId",
+  validate({ params: clubParams }),
+  leaveClubRequest
+);
+router.post(
+  "/joinRequest/:clubId",
+  validate({ params: clubParams, body: joinRequestSchema }),
+  joinClubRequest
+);
+router.post(
+  "/cancelJoinRequest/:clubId",
+  validate({ params: clubParams }),
+  cancelJoinRequest
+);
+router.post(
+  "/acceptJoinRequest/:clubId/:userId",
+  validate({ params: clubMemberParams }),
+  acceptJoinRequest
+); // הרשאות ייבדקו בקונטרולר (מנהל/קפטן)
+router.post(
+  "/rejectJoinRequest/:clubId/:userId",
+  validate({ params: clubMemberParams }),
+  rejectJoinRequest
+); // הרשאות ייבדקו בקונטרולר (מנהל/קפטן)
+
+// ניהול תפקידים וחברים (הרשאות ייבדקו בקונטרולר - מנהל בלבד)
+router.post(
+  "/promoteCaptain/:clubId/:userId",
+  validate({ params: clubMemberParams }),
+  promoteCaptain
+);
+router.post(
+  "/demoteCaptain/:clubId/:userId",
+  validate({ params: clubMemberParams }),
+  demoteCaptain
+);
+router.post(
+  "/transferOwnership/:clubId/:userId",
+  validate({ params: clubMemberParams }),
+  transferOwnership
+);
+router.post(
+  "/removeMember/:clubId/:userId",
+  validate({ params: clubMemberParams, body: removeMemberSchema }),
+  removeMember
+);
+router.post(
+  "/unbanMember/:clubId/:userId",
+  validate({ params: clubMemberParams }),
+  unbanMember
+);
+
+// הזמנות משתמשים (הרשאות ייבדקו בקונטרולר - מנהל/קפטן)
+router.post(
+  "/invite/:clubId/:userId",
+  validate({ params: clubMemberParams, body: inviteUserSchema }),
+  inviteUser
+);
+router.post(
+  "/cancelInvitation/:clubId/:userId",
+  validate({ params: clubMemberParams }),
+  cancelInvitation
+);
+router.post(
+  "/acceptInvitation/:clubId",
+  validate({ params: clubParams }),
+  acceptInvitation
+);
+router.post(
+  "/declineInvitation/:clubId",
+  validate({ params: clubParams }),
+  declineInvitation
+);
+
+// קודי הזמנה לשיתוף (הרשאות ייבדקו בקונטרולר - מנהל/קפטן)
+router
+  .route("/inviteCodes/:clubId")
+  .get(validate({ params: clubParams }), getInviteCodes)
+  .post(
+    validate({ params: clubParams, body: createInviteCodeSchema }),
+    createInviteCode
+  );
+router.delete(
+  "/inviteCodes/:clubId/:code",
+  validate({ params: inviteCodeParams }),
+  revokeInviteCode
+);
+router.post(
+  "/joinByCode/:code",
+  validate({ params: joinByCodeParams }),
+  joinByCode
+);
 
 export default router;
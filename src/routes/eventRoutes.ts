@@ -0,0 +1,129 @@
+import express, { Router } from "express";
+import {
+  getUpcomingEvents,
+  getEventsByClub,
+  getEventById,
+  createEvent,
+  updateEvent,
+  deleteEvent,
+  registerToEvent,
+  withdrawFromEvent,
+  generateTeams,
+  lockTeams,
+  swapTeamPlayers,
+  changeEventStatus,
+  createEventSeries,
+  getEventSeries,
+  updateSeriesOccurrence,
+  cancelSeriesOccurrence,
+  getNearbyEvents,
+} from "../controllers/eventController";
+import { protect } from "../middleware/authMiddleware";
+import { validate } from "../middleware/validateMiddleware";
+import {
+  createEventSchema,
+  updateEventSchema,
+  createSeriesSchema,
+  updateOccurrenceSchema,
+  cancelOccurrenceSchema,
+  changeStatusSchema,
+  generateTeamsSchema,
+  lockTeamsSchema,
+  swapPlayersSchema,
+  upcomingEventsQuery,
+  nearbyEventsQuery,
+  eventIdParams,
+  eventParams,
+  seriesParams,
+  clubEventsParams,
+} from "../validation/eventSchemas";
+
+const router: Router = express.Router();
+
+// כל הניתובים דורשים אימות
+router.use(protect);
+
+// ניתובים לקבלת אירועים
+router.get(
+  "/upcoming",
+  validate({ query: upcomingEventsQuery }),
+  getUpcomingEvents
+);
+router.get(
+  "/byClub/:clubId",
+  validate({ params: clubEventsParams }),
+  getEventsByClub
+);
+router.get("/near", validate({ query: nearbyEventsQuery }), getNearbyEvents);
+
+// ניתובי סדרות אירועים חוזרים (הרשאות ייבדקו בקונטרולר)
+router.post(
+  "/series",
+  validate({ body: createSeriesSchema }),
+  createEventSeries
+);
+router.get(
+  "/series/:seriesId",
+  validate({ params: seriesParams }),
+  getEventSeries
+);
+router.put(
+  "/series/occurrence/:eventId",
+  validate({ params: eventParams, body: updateOccurrenceSchema }),
+  updateSeriesOccurrence
+);
+router.post(
+  "/series/cancelOccurrence/:eventId",
+  validate({ params: eventParams, body: cancelOccurrenceSchema }),
+  cancelSeriesOccurrence
+);
+
+// ניתובים בסיסיים לאירועים
+router.post("/", validate({ body: createEventSchema }), createEvent); // הרשאות ייבדקו בקונטרולר (מנהל/קפטן)
+
+router
+  .route("/:id")
+  .get(validate({ params: eventIdParams }), getEventById) // חברי הקבוצה בלבד
+  .put(
+    validate({ params: eventIdParams, body: updateEventSchema }),
+    updateEvent
+  ) // הרשאות ייבדקו בקונטרולר (מנהל/קפטן)
+  .delete(validate({ params: eventIdParams }), deleteEvent); // הרשאות ייבדקו בקונטרולר (מנהל/קפטן)
+
+// שינוי סטטוס האירוע (הרשאות ייבדקו בקונטרולר - מנהל/קפטן)
+router.put(
+  "/status/:eventId",
+  validate({ params: eventParams, body: changeStatusSchema }),
+  changeEventStatus
+);
+
+// ניתובי הרשמה לאירוע
+router.post(
+  "/register/:eventId",
+  validate({ params: eventParams }),
+  registerToEvent
+);
+router.post(
+  "/withdraw/:eventId",
+  validate({ params: eventParams }),
+  withdrawFromEvent
+);
+
+// ניתובי ניהול קבוצות (הרשאות ייבדקו בקונטרולר - מנהל/קפטן)
+router.post(
+  "/teams/generate/:eventId",
+  validate({ params: eventParams, body: generateTeamsSchema }),
+  generateTeams
+);
+router.post(
+  "/teams/lock/:eventId",
+  validate({ params: eventParams, body: lockTeamsSchema }),
+  lockTeams
+);
+router.post(
+  "/teams/swap/:eventId",
+  validate({ params: eventParams, body: swapPlayersSchema }),
+  swapTeamPlayers
+);
+
+export default router;
@@ -0,0 +1,63 @@
+import express, { Router } from "express";
+import {
+  getAllFields,
+  getFieldById,
+  createField,
+  updateField,
+  deleteField,
+  getFieldAvailability,
+  getNearbyFields,
+} from "../controllers/fieldController";
+import { protect, authorize } from "../middleware/authMiddleware";
+import { validate } from "../middleware/validateMiddleware";
+import { UserRoleEnum } from "../types/enums";
+import { nearQuerySchema } from "../validation/common";
+import {
+  createFieldSchema,
+  updateFieldSchema,
+  fieldsQuery,
+  availabilityQuery,
+  fieldIdParams,
+  availabilityParams,
+} from "../validation/fieldSchemas";
+
+const router: Router = express.Router();
+
+// כל הניתובים דורשים אימות
+router.use(protect);
+
+// ניתובים בסיסיים למגרשים
+router
+  .route("/")
+  .get(validate({ query: fieldsQuery }), getAllFields)
+  .post(
+    authorize([
+      UserRoleEnum.SILVER,
+      UserRoleEnum.GOLD,
+      UserRoleEnum.PREMIUM,
+      UserRoleEnum.SUPER_ADMIN,
+    ]),
+    validate({ body: createFieldSchema }),
+    createField
+  );
+
+// חיפוש מגרשים בקרבת המשתמש
+router.get("/near", validate({ query: nearQuerySchema }), getNearbyFields);
+
+// לוח הזמנות של מגרש ליום מסוים
+router.get(
+  "/availability/:fieldId",
+  validate({ params: availabilityParams, query: availabilityQuery }),
+  getFieldAvailability
+);
+
+router
+  .route("/:id")
+  .get(validate({ params: fieldIdParams }), getFieldById)
+  .put(
+    validate({ params: fieldIdParams, body: updateFieldSchema }),
+    updateField
+  ) // הרשאות ייבדקו בקונטרולר (יוצר המגרש/סופר אדמין)
+  .delete(validate({ params: fieldIdParams }), deleteField); // הרשאות ייבדקו בקונטרולר (יוצר המגרש/סופר אדמין)
+
+export default router;
@@ -1,15 +1,43 @@
-import express, { Router } from "express";
+import { Router } from "express";
+import swaggerUi from "swagger-ui-express";
 import { errorHandler } from "../middleware/errorMiddleware";
 import { AppError } from "../middleware/errorMiddleware";
+import { ApiMount, buildOpenApiSpec } from "../docs/openapi";
 import userRoutes from "./userRoutes";
+import clubRoutes from "./clubRoute";
+import eventRoutes from "./eventRoutes";
+import fieldRoutes from "./fieldRoutes";
+import matchRoutes from "./matchRoutes";
+import leaderboardRoutes from "./leaderboardRoutes";
+import ratingRoutes from "./ratingRoutes";
 
 const router = Router();
 
-// Use user routes
-router.use("/users", userRoutes);
+// כל משאבי ה-API - משאב חדש נוסף כאן ויופיע אוטומטית גם בתיעוד
+const apiMounts: ApiMount[] = [
+  { path: "/users", router: userRoutes, tag: "Users" },
+  { path: "/clubs", router: clubRoutes, tag: "Clubs" },
+  { path: "/events", router: eventRoutes, tag: "Events" },
+  { path: "/fields", router: fieldRoutes, tag: "Fields" },
+  { path: "/matches", router: matchRoutes, tag: "Matches" },
+  { path: "/leaderboards", router: leaderboardRoutes, tag: "Leaderboards" },
+  { path: "/ratings", router: ratingRoutes, tag: "Ratings" },
+];
+
+// Use resource routes
+for (const mount of apiMounts) {
+  router.use(mount.path, mount.router);
+}
+
+// OpenAPI document and docs UI
+const openApiSpec = buildOpenApiSpec(apiMounts);
+router.get("/openapi.json", (req, res) => {
+  res.json(openApiSpec);
+});
+router.use("/docs", swaggerUi.serve, swaggerUi.setup(openApiSpec));
 
 // Handle unknown routes
-router.use("*", (req, res, next) => {
+router.use((req, res, next) => {
   next(AppError.notFound(`Endpoint ${req.originalUrl} not found`));
 });
 
@@ -0,0 +1,33 @@
+import express, { Router } from "express";
+import {
+  getClubLeaderboard,
+  getSportLeaderboard,
+} from "../controllers/leaderboardController";
+import { protect } from "../middleware/authMiddleware";
+import { validate } from "../middleware/validateMiddleware";
+import {
+  leaderboardQuery,
+  clubLeaderboardParams,
+  sportLeaderboardParams,
+} from "../validation/leaderboardSchemas";
+
+const router: Router = express.Router();
+
+// כל הניתובים דורשים אימות
+router.use(protect);
+
+// טבלת מובילים של קבוצה (חברי הקבוצה בלבד)
+router.get(
+  "/club/:clubId",
+  validate({ params: clubLeaderboardParams, query: leaderboardQuery }),
+  getClubLeaderboard
+);
+
+// טבלת מובילים של ענף ספורט בכל הקבוצות
+router.get(
+  "/sport/:sportCategory",
+  validate({ params: sportLeaderboardParams, query: leaderboardQuery }),
+  getSportLeaderboard
+);
+
+export default router;
@@ -0,0 +1,65 @@
+import express, { Router } from "express";
+import {
+  createMatch,
+  getMatchById,
+  getMatchesByEvent,
+  deleteMatch,
+  addGoal,
+  removeGoal,
+  setPlayerPoints,
+  finalizeMatch,
+} from "../controllers/matchController";
+import { protect } from "../middleware/authMiddleware";
+import { validate } from "../middleware/validateMiddleware";
+import {
+  createMatchSchema,
+  goalSchema,
+  playerPointsSchema,
+  matchIdParams,
+  matchParams,
+  goalParams,
+  eventMatchesParams,
+} from "../validation/matchSchemas";
+
+const router: Router = express.Router();
+
+// כל הניתובים דורשים אימות
+router.use(protect);
+
+// משחקים של אירוע
+router.get(
+  "/byEvent/:eventId",
+  validate({ params: eventMatchesParams }),
+  getMatchesByEvent
+);
+
+// רישום תוצאות (הרשאות ייבדקו בקונטרולר - מנהל/קפטן)
+router.post(
+  "/goal/:matchId",
+  validate({ params: matchParams, body: goalSchema }),
+  addGoal
+);
+router.delete(
+  "/goal/:matchId/:goalId",
+  validate({ params: goalParams }),
+  removeGoal
+);
+router.post(
+  "/points/:matchId",
+  validate({ params: matchParams, body: playerPointsSchema }),
+  setPlayerPoints
+);
+router.post(
+  "/finalize/:matchId",
+  validate({ params: matchParams }),
+  finalizeMatch
+);
+
+// ניתובים בסיסיים למשחקים
+router.post("/", validate({ body: createMatchSchema }), createMatch); // הרשאות ייבדקו בקונטרולר (מנהל/קפטן)
+router
+  .route("/:id")
+  .get(validate({ params: matchIdParams }), getMatchById)
+  .delete(validate({ params: matchIdParams }), deleteMatch);
+
+export default router;
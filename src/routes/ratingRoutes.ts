@@ -0,0 +1,27 @@
+import express, { Router } from "express";
+import {
+  submitRatings,
+  getEventRatingStatus,
+} from "../controllers/ratingController";
+import { protect } from "../middleware/authMiddleware";
+import { validate } from "../middleware/validateMiddleware";
+import {
+  submitRatingsSchema,
+  eventRatingParams,
+} from "../validation/ratingSchemas";
+
+const router: Router = express.Router();
+
+// כל הניתובים דורשים אימות
+router.use(protect);
+
+// דירוג שחקני אירוע שהסתיים (משתתפי האירוע בלבד)
+router
+  .route("/event/:eventId")
+  .get(validate({ params: eventRatingParams }), getEventRatingStatus)
+  .post(
+    validate({ params: eventRatingParams, body: submitRatingsSchema }),
+    submitRatings
+  );
+
+export default router;
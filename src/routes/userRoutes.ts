@@ -10,31 +10,141 @@ import {
   getUsersByEvent,
   deleteUser,
   updateUserSubscription,
+  getFavoriteFields,
+  addFavoriteField,
+  removeFavoriteField,
+  getRatingHistory,
+  refreshToken,
+  logoutUser,
+  logoutAllDevices,
+  verifyEmail,
+  resendVerification,
+  forgotPassword,
+  resetPassword,
+  changePassword,
+  updateAccountStatus,
+  getUserAuditLog,
 } from "../controllers/userController";
 import { protect, authorize } from "../middleware/authMiddleware";
+import { validate } from "../middleware/validateMiddleware";
+import { UserRoleEnum } from "../types/enums";
+import { idParams } from "../validation/common";
+import {
+  registerSchema,
+  loginSchema,
+  refreshTokenSchema,
+  verifyEmailSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  changePasswordSchema,
+  accountStatusSchema,
+  auditLogQuery,
+  updateUserSchema,
+  userIdParams,
+  favoriteFieldParams,
+  getUserQuery,
+  ratingHistoryQuery,
+  subscriptionParams,
+} from "../validation/userSchemas";
 
 const router: Router = express.Router();
 
 // ניתובים פתוחים
-router.post("/register", registerUser);
-router.post("/login", loginUser);
+router.post("/register", validate({ body: registerSchema }), registerUser);
+router.post("/login", validate({ body: loginSchema }), loginUser);
+router.post(
+  "/refreshToken",
+  validate({ body: refreshTokenSchema }),
+  refreshToken
+);
+router.post("/logout", validate({ body: refreshTokenSchema }), logoutUser);
+router.post("/verifyEmail", validate({ body: verifyEmailSchema }), verifyEmail);
+router.post(
+  "/forgotPassword",
+  validate({ body: forgotPasswordSchema }),
+  forgotPassword
+);
+router.post(
+  "/resetPassword",
+  validate({ body: resetPasswordSchema }),
+  resetPassword
+);
 
 router.use(protect); // מכאן והלאה כל הניתובים דורשים אימות
 
 // ניתובים למשתמש מחובר
 router.get("/getConnectedUser", getConnectedUser);
-router.put("/updateConnectedUser/:id", updateConnectedUser);
+router.post("/logoutAll", logoutAllDevices);
+router.post("/resendVerification", resendVerification);
+router.put(
+  "/changePassword",
+  validate({ body: changePasswordSchema }),
+  changePassword
+);
+router.put(
+  "/updateConnectedUser/:id",
+  validate({ params: userIdParams, body: updateUserSchema }),
+  updateConnectedUser
+);
 
 // ניתובים לקבלת משתמשים
-router.get("/byClub/:clubId", getUsersByClub);
-router.get("/byEvent/:eventId", getUsersByEvent);
+router.get(
+  "/byClub/:clubId",
+  validate({ params: idParams("clubId") }),
+  getUsersByClub
+);
+router.get(
+  "/byEvent/:eventId",
+  validate({ params: idParams("eventId") }),
+  getUsersByEvent
+);
 router.get("/getAllUsers", getUsers);
-router.get("/getById/:id", getUser);
+router.get(
+  "/getById/:id",
+  validate({ params: userIdParams, query: getUserQuery }),
+  getUser
+);
+router.get(
+  "/ratingHistory/:id",
+  validate({ params: userIdParams, query: ratingHistoryQuery }),
+  getRatingHistory
+);
 
 // ניתובים למחיקת משתמש
-router.delete("/delete/:id", deleteUser);
+router.delete("/delete/:id", validate({ params: userIdParams }), deleteUser);
+
+// ניהול סטטוס החשבון (סופר אדמין בלבד)
+router.put(
+  "/accountStatus/:id",
+  authorize([UserRoleEnum.SUPER_ADMIN]),
+  validate({ params: userIdParams, body: accountStatusSchema }),
+  updateAccountStatus
+);
+router.get(
+  "/auditLog/:id",
+  authorize([UserRoleEnum.SUPER_ADMIN]),
+  validate({ params: userIdParams, query: auditLogQuery }),
+  getUserAuditLog
+);
+
+// ניתובים למגרשים מועדפים
+router.get("/favoriteFields", getFavoriteFields);
+router.post(
+  "/favoriteFields/:fieldId",
+  validate({ params: favoriteFieldParams }),
+  addFavoriteField
+);
+router.delete(
+  "/favoriteFields/:fieldId",
+  validate({ params: favoriteFieldParams }),
+  removeFavoriteField
+);
 
 // ניתובים לשינוי מנוי
-router.post("/changeSubscription/:subscriptionId", updateUserSubscription);
+router.post(
+  "/changeSubscription/:subscriptionId",
+  validate({ params: subscriptionParams }),
+  updateUserSubscription
+);
 
 export default router;
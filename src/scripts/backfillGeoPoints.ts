@@ -0,0 +1,63 @@
+/**
+ * One-off migration: fill `location.point` for documents saved before the
+ * GeoJSON point was added. The geo plugin only sets the point on save and
+ * update, so older clubs, users and events are missing from "near me"
+ * searches until this runs. Safe to run more than once - documents that
+ * already have a point are skipped.
+ *
+ * Usage: npm run backfill:geo (reads MONGODB_URI from the environment)
+ */
+import mongoose, { Model } from "mongoose";
+import connectDB from "../config/db";
+import Club from "../models/Club";
+import Event from "../models/Event";
+import Field from "../models/Field";
+import User from "../models/User";
+
+// רק קואורדינטות תקינות - נקודה לא תקינה נדחית על ידי אינדקס 2dsphere
+const MISSING_POINT_FILTER = {
+  "location.point": { $exists: false },
+  "location.lat": { $type: "number", $gte: -90, $lte: 90 },
+  "location.lng": { $type: "number", $gte: -180, $lte: 180 },
+};
+
+/**
+ * Set the GeoJSON point of every document of a model that has coordinates
+ * but no point
+ * @param model Model with a `location` object holding lat, lng and point
+ * @returns Number of updated documents
+ */
+const backfillModel = async (model: Model<any>) => {
+  const result = await model.updateMany(MISSING_POINT_FILTER, [
+    {
+      $set: {
+        "location.point": {
+          type: "Point",
+          coordinates: ["$location.lng", "$location.lat"],
+        },
+      },
+    },
+  ]);
+  return result.modifiedCount;
+};
+
+const run = async () => {
+  await connectDB();
+
+  for (const model of [Club, User, Event, Field] as Model<any>[]) {
+    const updated = await backfillModel(model);
+    console.log(`${model.modelName}: ${updated} location points backfilled`);
+  }
+
+  await mongoose.disconnect();
+};
+
+run().catch(async (error) => {
+  console.error(
+    `Geo point backfill failed: ${
+      error instanceof Error ? error.message : "Unknown error"
+    }`
+  );
+  await mongoose.disconnect();
+  process.exit(1);
+});
@@ -0,0 +1,307 @@
+import mongoose from "mongoose";
+import jwt from "jsonwebtoken";
+import User from "../../models/User";
+import RefreshToken from "../../models/RefreshToken";
+import { authService } from "../authService";
+import { auditLogService } from "../auditLogService";
+import { getJwtSecret } from "../../config/jwt";
+import { hashToken } from "../../utils/tokens";
+import { AccountStatusEnum, AuditActionEnum } from "../../types/enums";
+
+jest.mock("../../models/User", () => ({
+  __esModule: true,
+  default: {
+    findOne: jest.fn(),
+    findById: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+  },
+}));
+jest.mock("../../models/RefreshToken", () => ({
+  __esModule: true,
+  default: {
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    create: jest.fn(),
+    updateMany: jest.fn(),
+    distinct: jest.fn(),
+  },
+}));
+jest.mock("../auditLogService", () => ({
+  auditLogService: { record: jest.fn() },
+}));
+
+const MINUTE_MS = 60 * 1000;
+
+// שאילתת mongoose מדומה - ניתן לשרשר select או להמתין לה ישירות
+type QueryStub<T> = Promise<T> & { select(fields: string): Promise<T> };
+
+interface UserStub {
+  _id: mongoose.Types.ObjectId;
+  email: string;
+  isEmailVerified: boolean;
+  accountStatus: AccountStatusEnum;
+  previousAccountStatus?: AccountStatusEnum;
+  lockedUntil?: Date;
+  tokenVersion: number;
+  failedLoginAttempts: number;
+  matchPassword: jest.Mock<Promise<boolean>, [string]>;
+}
+
+interface RefreshTokenStub {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  family: string;
+  tokenHash: string;
+  expiresAt: Date;
+  revokedAt?: Date;
+  replacedBy?: mongoose.Types.ObjectId;
+}
+
+// רק הפעולות של המודלים שהשירות משתמש בהן
+interface UserModelStub {
+  findOne(filter: object): QueryStub<UserStub | null>;
+  findById(id: unknown): QueryStub<UserStub | null>;
+  findOneAndUpdate(
+    filter: object,
+    update: object,
+    options?: object
+  ): Promise<Partial<UserStub> | null>;
+  updateOne(filter: object, update: object): Promise<{ modifiedCount: number }>;
+}
+
+interface RefreshTokenModelStub {
+  findOne(filter: object): Promise<RefreshTokenStub | null>;
+  findOneAndUpdate(
+    filter: object,
+    update: object,
+    options?: object
+  ): Promise<RefreshTokenStub | null>;
+  create(doc: object): Promise<{ _id: mongoose.Types.ObjectId }>;
+  updateMany(
+    filter: object,
+    update: object
+  ): Promise<{ modifiedCount: number }>;
+  distinct(field: string, filter: object): Promise<string[]>;
+}
+
+const userModel = User as unknown as jest.Mocked<UserModelStub>;
+const refreshTokenModel =
+  RefreshToken as unknown as jest.Mocked<RefreshTokenModelStub>;
+
+const query = <T>(value: T): QueryStub<T> =>
+  Object.assign(Promise.resolve(value), {
+    select: jest.fn(() => Promise.resolve(value)),
+  });
+
+const buildUser = (overrides: Partial<UserStub> = {}): UserStub => ({
+  _id: new mongoose.Types.ObjectId(),
+  email: "player@example.com",
+  isEmailVerified: true,
+  accountStatus: AccountStatusEnum.ACTIVE,
+  tokenVersion: 0,
+  failedLoginAttempts: 0,
+  matchPassword: jest.fn<Promise<boolean>, [string]>().mockResolvedValue(true),
+  ...overrides,
+});
+
+const mockUser = (user: UserStub) => {
+  userModel.findOne.mockReturnValue(query(user));
+  userModel.findById.mockReturnValue(query(user));
+  userModel.updateOne.mockResolvedValue({ modifiedCount: 1 });
+};
+
+const wrongPassword = () =>
+  jest.fn<Promise<boolean>, [string]>().mockResolvedValue(false);
+
+describe("authService.refreshSession", () => {
+  const user = buildUser();
+  const presented = "presented-refresh-token";
+  const stored: RefreshTokenStub = {
+    _id: new mongoose.Types.ObjectId(),
+    userId: user._id,
+    family: "family-1",
+    tokenHash: hashToken(presented),
+    expiresAt: new Date(Date.now() + MINUTE_MS),
+  };
+  const replacementId = new mongoose.Types.ObjectId();
+  const familyRevoked = () =>
+    expect(refreshTokenModel.updateMany).toHaveBeenCalledWith(
+      { family: stored.family, revokedAt: { $exists: false } },
+      { revokedAt: expect.any(Date) }
+    );
+
+  beforeEach(() => {
+    mockUser(user);
+    refreshTokenModel.create.mockResolvedValue({ _id: replacementId });
+  });
+
+  it("rotates the token within its family", async () => {
+    refreshTokenModel.findOne.mockResolvedValue(stored);
+    refreshTokenModel.findOneAndUpdate.mockResolvedValue(stored);
+
+    const tokens = await authService.refreshSession(presented);
+
+    expect(refreshTokenModel.findOne).toHaveBeenCalledWith({
+      tokenHash: hashToken(presented),
+    });
+    expect(refreshTokenModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: user._id.toString(),
+        family: stored.family,
+      })
+    );
+    // הטוקן הקודם מבוטל רק אם לא סובב כבר במקביל
+    expect(refreshTokenModel.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: stored._id, revokedAt: { $exists: false } },
+      expect.objectContaining({ replacedBy: replacementId }),
+      { new: true }
+    );
+    expect(tokens.refreshToken).not.toBe(presented);
+    expect(jwt.verify(tokens.token, getJwtSecret())).toMatchObject({
+      id: user._id.toString(),
+      tokenVersion: 0,
+    });
+  });
+
+  it("revokes the whole family when a rotated token is reused", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    refreshTokenModel.findOne.mockResolvedValue({
+      ...stored,
+      revokedAt: new Date(),
+      replacedBy: replacementId,
+    });
+
+    await expect(authService.refreshSession(presented)).rejects.toMatchObject({
+      statusCode: 401,
+    });
+
+    familyRevoked();
+    expect(refreshTokenModel.create).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it("treats a concurrent rotation of the same token as reuse", async () => {
+    refreshTokenModel.findOne.mockResolvedValue(stored);
+    refreshTokenModel.findOneAndUpdate.mockResolvedValue(null);
+
+    await expect(authService.refreshSession(presented)).rejects.toMatchObject({
+      statusCode: 401,
+    });
+
+    familyRevoked();
+  });
+
+  it("rejects an expired token", async () => {
+    refreshTokenModel.findOne.mockResolvedValue({
+      ...stored,
+      expiresAt: new Date(Date.now() - MINUTE_MS),
+    });
+
+    await expect(authService.refreshSession(presented)).rejects.toMatchObject({
+      statusCode: 401,
+    });
+    expect(refreshTokenModel.create).not.toHaveBeenCalled();
+  });
+});
+
+describe("authService.login lockout", () => {
+  beforeEach(() => {
+    refreshTokenModel.create.mockResolvedValue({
+      _id: new mongoose.Types.ObjectId(),
+    });
+    refreshTokenModel.distinct.mockResolvedValue([]);
+  });
+
+  it("counts a wrong password without locking below the limit", async () => {
+    const user = buildUser({ matchPassword: wrongPassword() });
+    mockUser(user);
+    userModel.findOneAndUpdate.mockResolvedValue({ failedLoginAttempts: 1 });
+
+    await expect(
+      authService.login(user.email, "wrong-password")
+    ).rejects.toMatchObject({ statusCode: 401 });
+
+    expect(userModel.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: user._id },
+      { $inc: { failedLoginAttempts: 1 } },
+      expect.anything()
+    );
+    expect(userModel.updateOne).not.toHaveBeenCalled();
+  });
+
+  it("locks the account when the limit is reached", async () => {
+    const user = buildUser({ matchPassword: wrongPassword() });
+    mockUser(user);
+    userModel.findOneAndUpdate.mockResolvedValue({ failedLoginAttempts: 5 });
+
+    await expect(
+      authService.login(user.email, "wrong-password")
+    ).rejects.toMatchObject({ statusCode: 401 });
+
+    // הנעילה שומרת את הסטטוס הקודם כדי לשחזר אותו בסיומה
+    expect(userModel.updateOne).toHaveBeenCalledWith(
+      {
+        _id: user._id,
+        accountStatus: {
+          $in: [
+            AccountStatusEnum.ACTIVE,
+            AccountStatusEnum.PENDING_VERIFICATION,
+          ],
+        },
+      },
+      [
+        {
+          $set: expect.objectContaining({
+            previousAccountStatus: "$accountStatus",
+            accountStatus: AccountStatusEnum.LOCKED,
+            lockedUntil: expect.any(Date),
+          }),
+        },
+      ]
+    );
+    // כל הסשנים הפתוחים מבוטלים
+    expect(userModel.updateOne).toHaveBeenCalledWith(
+      { _id: user._id.toString() },
+      { $inc: { tokenVersion: 1 } }
+    );
+    expect(auditLogService.record).toHaveBeenCalledWith(
+      expect.objectContaining({ action: AuditActionEnum.USER_LOCKED })
+    );
+  });
+
+  it("refuses a locked account before checking the password", async () => {
+    const user = buildUser({
+      accountStatus: AccountStatusEnum.LOCKED,
+      lockedUntil: new Date(Date.now() + 15 * MINUTE_MS),
+    });
+    mockUser(user);
+
+    await expect(
+      authService.login(user.email, "correct-password")
+    ).rejects.toMatchObject({ statusCode: 403 });
+
+    expect(user.matchPassword).not.toHaveBeenCalled();
+  });
+
+  it("restores the pre-lock status when the lock expires", async () => {
+    const user = buildUser({
+      accountStatus: AccountStatusEnum.LOCKED,
+      lockedUntil: new Date(Date.now() - MINUTE_MS),
+      previousAccountStatus: AccountStatusEnum.PENDING_VERIFICATION,
+      isEmailVerified: false,
+    });
+    mockUser(user);
+
+    const result = await authService.login(user.email, "correct-password");
+
+    expect(userModel.updateOne).toHaveBeenCalledWith(
+      { _id: user._id, accountStatus: AccountStatusEnum.LOCKED },
+      expect.objectContaining({
+        accountStatus: AccountStatusEnum.PENDING_VERIFICATION,
+      })
+    );
+    expect(result.token).toEqual(expect.any(String));
+  });
+});
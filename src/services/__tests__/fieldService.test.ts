@@ -0,0 +1,166 @@
+import mongoose from "mongoose";
+import Field from "../../models/Field";
+import Event from "../../models/Event";
+import { fieldService } from "../fieldService";
+import { SportCategoryEnum } from "../../types/enums";
+
+jest.mock("../../models/Field", () => ({
+  __esModule: true,
+  default: { findById: jest.fn() },
+}));
+jest.mock("../../models/Event", () => ({
+  __esModule: true,
+  default: { findOne: jest.fn(), find: jest.fn() },
+}));
+
+interface FieldStub {
+  name: string;
+  sportCategories: SportCategoryEnum[];
+  openingHours?: { day: number; open: string; close: string }[];
+}
+
+interface BookedEventStub {
+  name: string;
+  time: { start: Date; end: Date };
+}
+
+// רק הפעולות של המודלים שהשירות משתמש בהן
+interface FieldModelStub {
+  findById(id: string): Promise<FieldStub | null>;
+}
+
+interface EventModelStub {
+  findOne(filter: object): {
+    sort(order: object): Promise<BookedEventStub | null>;
+  };
+  find(filter: object): {
+    select(fields: string): {
+      sort(order: object): Promise<BookedEventStub[]>;
+    };
+  };
+}
+
+const fieldModel = Field as unknown as jest.Mocked<FieldModelStub>;
+const eventModel = Event as unknown as jest.Mocked<EventModelStub>;
+
+const fieldId = new mongoose.Types.ObjectId().toString();
+const at = (time: string) => new Date(`2030-01-01T${time}:00.000Z`);
+
+// findOne(...).sort(...) מחזיר את האירוע החופף הראשון
+const mockOverlapping = (event: BookedEventStub | null) => {
+  eventModel.findOne.mockReturnValue({
+    sort: jest.fn(() => Promise.resolve(event)),
+  });
+};
+
+const overlapFilter = () => eventModel.findOne.mock.calls[0][0];
+
+describe("fieldService.assertFieldAvailableForWindows", () => {
+  beforeEach(() => {
+    fieldModel.findById.mockResolvedValue({
+      name: "Central Park",
+      sportCategories: [SportCategoryEnum.FOOTBALL],
+    });
+  });
+
+  it("checks every window in a single overlap query", async () => {
+    mockOverlapping(null);
+    const windows = [
+      { start: at("18:00"), end: at("19:00") },
+      { start: at("20:00"), end: at("21:00") },
+    ];
+
+    await fieldService.assertFieldAvailableForWindows(
+      fieldId,
+      windows,
+      SportCategoryEnum.FOOTBALL
+    );
+
+    expect(eventModel.findOne).toHaveBeenCalledTimes(1);
+    expect(overlapFilter()).toMatchObject({
+      fieldId,
+      $or: windows.map(({ start, end }) => ({
+        "time.start": { $lt: end },
+        "time.end": { $gt: start },
+      })),
+    });
+  });
+
+  it("rejects a window that overlaps an existing booking", async () => {
+    mockOverlapping({
+      name: "Weekly game",
+      time: { start: at("18:30"), end: at("19:30") },
+    });
+
+    await expect(
+      fieldService.assertFieldAvailable(
+        fieldId,
+        at("18:00"),
+        at("19:00"),
+        SportCategoryEnum.FOOTBALL
+      )
+    ).rejects.toMatchObject({
+      statusCode: 409,
+      message: expect.stringContaining('by event "Weekly game"'),
+    });
+  });
+
+  it("ignores the events being updated", async () => {
+    mockOverlapping(null);
+    const ownId = new mongoose.Types.ObjectId();
+
+    await fieldService.assertFieldAvailable(
+      fieldId,
+      at("18:00"),
+      at("19:00"),
+      SportCategoryEnum.FOOTBALL,
+      [ownId]
+    );
+
+    expect(overlapFilter()).toMatchObject({ _id: { $nin: [ownId] } });
+  });
+
+  it("rejects a sport the field does not support", async () => {
+    await expect(
+      fieldService.assertFieldAvailable(
+        fieldId,
+        at("18:00"),
+        at("19:00"),
+        SportCategoryEnum.BASKETBALL
+      )
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(eventModel.findOne).not.toHaveBeenCalled();
+  });
+});
+
+describe("fieldService.getAvailability", () => {
+  beforeEach(() => {
+    eventModel.find.mockReturnValue({
+      select: jest.fn(() => ({ sort: jest.fn(() => Promise.resolve([])) })),
+    });
+  });
+
+  it("splits overnight opening hours at midnight", async () => {
+    // 2030-01-01 הוא יום שלישי - שעות הלילה של יום שני נמשכות אל תוכו
+    fieldModel.findById.mockResolvedValue({
+      name: "Central Park",
+      sportCategories: [SportCategoryEnum.FOOTBALL],
+      openingHours: [
+        { day: 1, open: "18:00", close: "02:00" },
+        { day: 2, open: "18:00", close: "02:00" },
+      ],
+    });
+
+    const availability = await fieldService.getAvailability(
+      fieldId,
+      "2030-01-01"
+    );
+
+    const expected = [
+      { start: at("00:00"), end: at("02:00") },
+      { start: at("18:00"), end: new Date("2030-01-02T00:00:00.000Z") },
+    ];
+    expect(availability.openingHours).toEqual(expected);
+    expect(availability.freeSlots).toEqual(expected);
+  });
+});
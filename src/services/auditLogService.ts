@@ -0,0 +1,45 @@
+import mongoose from "mongoose";
+import AuditLog from "../models/AuditLog";
+import { AppError } from "../middleware/errorMiddleware";
+import { AuditActionEnum } from "../types/enums";
+
+const DEFAULT_AUDIT_LIMIT = 50;
+const MAX_AUDIT_LIMIT = 200;
+
+export interface AuditEntry {
+  action: AuditActionEnum;
+  targetUserId: string;
+  actorId?: string;
+  reason?: string;
+  metadata?: Record<string, unknown>;
+}
+
+class AuditLogService {
+  /**
+   * Record an administrative or security action
+   * @param entry Action, target, actor and reason
+   * @returns Created audit entry
+   */
+  async record(entry: AuditEntry) {
+    return await AuditLog.create(entry);
+  }
+
+  /**
+   * Get the audit trail of a user, newest first
+   * @param userId User ID
+   * @param limit Maximum number of entries
+   * @returns Audit entries with the acting user
+   */
+  async getUserAuditLog(userId: string, limit = DEFAULT_AUDIT_LIMIT) {
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      throw AppError.badRequest("Invalid user ID");
+    }
+
+    return await AuditLog.find({ targetUserId: userId })
+      .sort({ createdAt: -1 })
+      .limit(Math.min(Math.max(limit, 1), MAX_AUDIT_LIMIT))
+      .populate("actorId", "firstName lastName email");
+  }
+}
+
+export const auditLogService = new AuditLogService();
@@ -0,0 +1,404 @@
+import mongoose from "mongoose";
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import User, { UserDocument } from "../models/User";
+import RefreshToken, { IRefreshToken } from "../models/RefreshToken";
+import { AppError } from "../middleware/errorMiddleware";
+import { AccountStatusEnum, AuditActionEnum } from "../types/enums";
+import {
+  ACCESS_TOKEN_EXPIRES_IN,
+  REFRESH_TOKEN_TTL_DAYS,
+  getJwtSecret,
+} from "../config/jwt";
+import { generateOpaqueToken, hashToken } from "../utils/tokens";
+import { auditLogService } from "./auditLogService";
+import { disconnectUserSockets } from "../realtime/matchBroadcaster";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// נעילה אוטומטית לאחר ניסיונות התחברות כושלים רצופים
+const MAX_FAILED_LOGINS = Number(process.env.LOGIN_MAX_ATTEMPTS) || 5;
+const LOGIN_LOCK_MINUTES = Number(process.env.LOGIN_LOCK_MINUTES) || 15;
+
+// השדות הנדרשים לבדיקת סטטוס החשבון
+export const ACCOUNT_STATUS_FIELDS =
+  "+statusReason +lockedUntil +previousAccountStatus";
+
+// פרטי המכשיר שממנו נפתח הסשן
+export interface SessionMeta {
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface AuthTokens {
+  token: string; // טוקן גישה קצר
+  refreshToken: string;
+}
+
+class AuthService {
+  /**
+   * Log a user in - a locked account is refused before the password is
+   * checked, every wrong password counts towards an automatic timed lock,
+   * and suspended or inactive accounts cannot log in
+   * @param email Email address
+   * @param password Password
+   * @param meta Device the session is opened from
+   * @returns The user and the tokens of the new session
+   */
+  async login(email: string, password: string, meta: SessionMeta = {}) {
+    const user = await User.findOne({ email }).select(
+      `+password +failedLoginAttempts ${ACCOUNT_STATUS_FIELDS}`
+    );
+    if (!user) {
+      throw AppError.unauthorized("Invalid email or password");
+    }
+
+    // חשבון נעול נדחה עוד לפני בדיקת הסיסמה
+    await this.releaseExpiredLock(user);
+    if (user.accountStatus === AccountStatusEnum.LOCKED) {
+      this.assertAccountActive(user);
+    }
+
+    if (!(await user.matchPassword(password))) {
+      await this.recordFailedLogin(user);
+      throw AppError.unauthorized("Invalid email or password");
+    }
+
+    this.assertAccountActive(user);
+
+    if (user.failedLoginAttempts > 0) {
+      await User.updateOne({ _id: user._id }, { failedLoginAttempts: 0 });
+    }
+
+    const userId = user._id.toString();
+    const tokens = await this.createSession(userId, meta);
+
+    return { user: await User.findById(userId), ...tokens };
+  }
+
+  /**
+   * Make sure a user may authenticate - used by login, token refresh and
+   * every authenticated request. An expired lock is released on the way
+   * @param user User with its status fields selected
+   */
+  async ensureCanAuthenticate(user: UserDocument) {
+    await this.releaseExpiredLock(user);
+    this.assertAccountActive(user);
+  }
+
+  /**
+   * The status an account returns to when a lock or suspension ends - the
+   * status it had before. Accounts without a recorded status (created before
+   * email verification existed) are active, and an account that verified its
+   * email in the meantime is no longer pending
+   * @param user User with its status fields selected
+   * @returns Account status
+   */
+  getRestoredStatus(user: UserDocument) {
+    if (
+      user.previousAccountStatus === AccountStatusEnum.PENDING_VERIFICATION &&
+      !user.isEmailVerified
+    ) {
+      return AccountStatusEnum.PENDING_VERIFICATION;
+    }
+    return AccountStatusEnum.ACTIVE;
+  }
+
+  /**
+   * Open a new session for a user - a short-lived access token and a new
+   * refresh token family
+   * @param userId User ID
+   * @param meta Device the session was opened from
+   * @returns Access and refresh tokens
+   */
+  async createSession(userId: string, meta: SessionMeta = {}) {
+    const user = await User.findById(userId).select("+tokenVersion");
+    if (!user) {
+      throw AppError.notFound("User not found");
+    }
+
+    const refreshToken = await this.issueRefreshToken(
+      userId,
+      crypto.randomUUID(),
+      meta
+    );
+
+    return {
+      token: this.generateAccessToken(userId, user.tokenVersion),
+      refreshToken: refreshToken.token,
+    } as AuthTokens;
+  }
+
+  /**
+   * Rotate a refresh token - the presented token is revoked and replaced by
+   * a new one in the same family. Presenting a token that was already
+   * rotated means it was stolen, so the whole family is revoked
+   * @param token Refresh token sent by the client
+   * @param meta Device the request was sent from
+   * @returns New access and refresh tokens
+   */
+  async refreshSession(token: string, meta: SessionMeta = {}) {
+    const stored = await RefreshToken.findOne({ tokenHash: hashToken(token) });
+    if (!stored || stored.expiresAt <= new Date()) {
+      throw AppError.unauthorized("Invalid or expired refresh token");
+    }
+
+    if (stored.revokedAt) {
+      await this.handleRevokedToken(stored);
+      throw AppError.unauthorized("Refresh token has been revoked");
+    }
+
+    const user = await User.findById(stored.userId).select(
+      `+tokenVersion ${ACCOUNT_STATUS_FIELDS}`
+    );
+    if (!user) {
+      throw AppError.unauthorized("User not found");
+    }
+    await this.ensureCanAuthenticate(user);
+
+    const userId = user._id.toString();
+    const replacement = await this.issueRefreshToken(
+      userId,
+      stored.family,
+      meta
+    );
+
+    // ביטול מותנה - אם טוקן זהה סובב במקביל, זהו שימוש חוזר
+    const rotated = await RefreshToken.findOneAndUpdate(
+      { _id: stored._id, revokedAt: { $exists: false } },
+      { revokedAt: new Date(), replacedBy: replacement.id },
+      { new: true }
+    );
+
+    if (!rotated) {
+      await this.revokeFamily(stored.family);
+      throw AppError.unauthorized("Refresh token has been revoked");
+    }
+
+    return {
+      token: this.generateAccessToken(userId, user.tokenVersion),
+      refreshToken: replacement.token,
+    } as AuthTokens;
+  }
+
+  /**
+   * Log out of a single session by revoking its refresh token family
+   * @param token Refresh token of the session
+   * @returns true if the session was revoked, false if the token is unknown
+   */
+  async logout(token: string) {
+    const stored = await RefreshToken.findOne({ tokenHash: hashToken(token) });
+    if (!stored) {
+      return false;
+    }
+
+    await this.revokeFamily(stored.family);
+    return true;
+  }
+
+  /**
+   * Log out of all devices - revoke every refresh token of the user,
+   * invalidate the access tokens that were already issued and close the
+   * user's realtime connections
+   * @param userId User ID
+   * @returns Number of revoked sessions
+   */
+  async logoutAll(userId: string) {
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      throw AppError.badRequest("Invalid user ID");
+    }
+
+    // העלאת הגרסה פוסלת את כל טוקני הגישה שהונפקו עד כה
+    await User.updateOne({ _id: userId }, { $inc: { tokenVersion: 1 } });
+
+    const families = await RefreshToken.distinct("family", {
+      userId,
+      revokedAt: { $exists: false },
+    });
+    await RefreshToken.updateMany(
+      { userId, revokedAt: { $exists: false } },
+      { revokedAt: new Date() }
+    );
+
+    // חיבורי realtime פתוחים נסגרים מיד ולא רק בחיבור הבא
+    disconnectUserSockets(userId);
+
+    return families.length;
+  }
+
+  /**
+   * Remove all the stored sessions of a user (used when the user is deleted)
+   * @param userId User ID
+   */
+  async deleteUserSessions(userId: string) {
+    await RefreshToken.deleteMany({ userId });
+    disconnectUserSockets(userId);
+  }
+
+  /**
+   * Refuse accounts that are locked, suspended or inactive. Pending accounts
+   * can log in but are restricted by the features that require verification
+   * @param user User with its status fields selected
+   */
+  private assertAccountActive(user: UserDocument) {
+    switch (user.accountStatus) {
+      case AccountStatusEnum.LOCKED:
+        throw AppError.forbidden(
+          user.lockedUntil
+            ? `Account is locked until ${user.lockedUntil.toISOString()}`
+            : "Account is locked"
+        );
+      case AccountStatusEnum.SUSPENDED:
+        throw AppError.forbidden(
+          user.statusReason
+            ? `Account is suspended: ${user.statusReason}`
+            : "Account is suspended"
+        );
+      case AccountStatusEnum.INACTIVE:
+        throw AppError.forbidden("Account is inactive");
+    }
+  }
+
+  /**
+   * Unlock an account whose automatic lock has expired
+   * @param user User with its status fields selected - updated in place
+   */
+  private async releaseExpiredLock(user: UserDocument) {
+    if (
+      user.accountStatus !== AccountStatusEnum.LOCKED ||
+      !user.lockedUntil ||
+      user.lockedUntil > new Date()
+    ) {
+      return;
+    }
+
+    const status = this.getRestoredStatus(user);
+    await User.updateOne(
+      { _id: user._id, accountStatus: AccountStatusEnum.LOCKED },
+      {
+        accountStatus: status,
+        failedLoginAttempts: 0,
+        $unset: { lockedUntil: 1, previousAccountStatus: 1 },
+      }
+    );
+    user.accountStatus = status;
+    user.lockedUntil = undefined;
+    user.previousAccountStatus = undefined;
+  }
+
+  /**
+   * Count a wrong password and lock the account when the limit is reached
+   * @param user User that failed to log in
+   */
+  private async recordFailedLogin(user: UserDocument) {
+    // ספירה אטומית - ניסיונות מקבילים נספרים כולם
+    const updated = await User.findOneAndUpdate(
+      { _id: user._id },
+      { $inc: { failedLoginAttempts: 1 } },
+      { new: true, projection: "+failedLoginAttempts" }
+    );
+    if (!updated || updated.failedLoginAttempts < MAX_FAILED_LOGINS) {
+      return;
+    }
+
+    // נעילה רק של חשבון פעיל - השעיה של מנהל אינה נדרסת, והסטטוס הנוכחי
+    // נשמר כדי לשחזר אותו בסיום הנעילה
+    const lockedUntil = new Date(Date.now() + LOGIN_LOCK_MINUTES * MINUTE_MS);
+    const locked = await User.updateOne(
+      {
+        _id: user._id,
+        accountStatus: {
+          $in: [
+            AccountStatusEnum.ACTIVE,
+            AccountStatusEnum.PENDING_VERIFICATION,
+          ],
+        },
+      },
+      [
+        {
+          $set: {
+            previousAccountStatus: "$accountStatus",
+            accountStatus: AccountStatusEnum.LOCKED,
+            lockedUntil,
+            failedLoginAttempts: 0,
+          },
+        },
+      ]
+    );
+
+    if (locked.modifiedCount) {
+      await this.logoutAll(user._id.toString());
+      await auditLogService.record({
+        action: AuditActionEnum.USER_LOCKED,
+        targetUserId: user._id.toString(),
+        reason: `${MAX_FAILED_LOGINS} failed login attempts`,
+        metadata: { lockedUntil },
+      });
+    }
+  }
+
+  /**
+   * Sign a short-lived access token
+   * @param userId User ID
+   * @param tokenVersion Current token version of the user
+   * @returns Access token
+   */
+  private generateAccessToken(userId: string, tokenVersion = 0) {
+    return jwt.sign({ id: userId, tokenVersion }, getJwtSecret(), {
+      expiresIn: ACCESS_TOKEN_EXPIRES_IN as jwt.SignOptions["expiresIn"],
+    });
+  }
+
+  /**
+   * Create and store a new refresh token
+   * @param userId User ID
+   * @param family Token family of the session
+   * @param meta Device the token is issued to
+   * @returns The raw token and the ID of the stored document
+   */
+  private async issueRefreshToken(
+    userId: string,
+    family: string,
+    meta: SessionMeta
+  ) {
+    const token = generateOpaqueToken();
+
+    const stored = await RefreshToken.create({
+      userId,
+      tokenHash: hashToken(token),
+      family,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * DAY_MS),
+      createdByIp: meta.ip,
+      userAgent: meta.userAgent,
+    });
+
+    return { token, id: stored._id };
+  }
+
+  /**
+   * A revoked token that was replaced by rotation is being reused - the
+   * session is compromised, so every token of its family is revoked
+   * @param stored The revoked token
+   */
+  private async handleRevokedToken(stored: IRefreshToken) {
+    if (stored.replacedBy) {
+      console.warn(
+        `Refresh token reuse detected for user ${stored.userId} - revoking session`
+      );
+      await this.revokeFamily(stored.family);
+    }
+  }
+
+  /**
+   * Revoke every active token of a session
+   * @param family Token family of the session
+   */
+  private async revokeFamily(family: string) {
+    await RefreshToken.updateMany(
+      { family, revokedAt: { $exists: false } },
+      { revokedAt: new Date() }
+    );
+  }
+}
+
+export const authService = new AuthService();
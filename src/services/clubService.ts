@@ -1,35 +1,269 @@
-import mongoose from "mongoose";
-import Club from "../models/Club";
-import User from "../models/User";
+import mongoose, { PipelineStage } from "mongoose";
+import crypto from "crypto";
+import Club, { IClub } from "../models/Club";
+import User, { UserDocument } from "../models/User";
 import { AppError } from "../middleware/errorMiddleware";
-import { ClubStatusEnum, UserRoleEnum } from "../types/enums";
+import {
+  AccountStatusEnum,
+  ClubMemberRoleEnum,
+  ClubSortEnum,
+  ClubStatusEnum,
+  SportCategoryEnum,
+  UserRoleEnum,
+} from "../types/enums";
+import { geoService } from "./geoService";
+import { getClubRoles, ClubViewer } from "../utils/clubRoles";
+import { assertUpdatableFields } from "../validation/common";
+import {
+  CLUB_CAPTAIN_UPDATABLE_FIELDS,
+  CreateClubDto,
+  UpdateClubDto,
+} from "../validation/clubSchemas";
+
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 100;
+const DEFAULT_INVITE_CODE_HOURS = 48;
+const MAX_INVITE_CODE_HOURS = 30 * 24;
+const DEFAULT_INVITE_CODE_USES = 10;
+const MAX_INVITE_CODE_USES = 100;
+
+export interface ClubListQuery {
+  search?: string;
+  sportCategory?: string;
+  city?: string;
+  country?: string;
+  status?: string;
+  visibility?: string; // public / private
+  hasFreeSpots?: string;
+  sort?: string;
+  lat?: string;
+  lng?: string;
+  page?: string;
+  limit?: string;
+}
+
+interface ClubListOptions {
+  sort: ClubSortEnum;
+  sportCategory?: SportCategoryEnum;
+  status?: ClubStatusEnum;
+  isPrivet?: boolean;
+  hasFreeSpots: boolean;
+  page: number;
+  limit: number;
+}
+
+// תווים מיוחדים בחיפוש חופשי לא יפורשו כביטוי רגולרי
+const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// התאמה מדויקת ללא תלות באותיות גדולות/קטנות
+const exactMatch = (value: string) =>
+  new RegExp(`^${escapeRegex(value.trim())}$`, "i");
+
+export interface InviteCodeOptions {
+  expiresInHours?: number;
+  maxUses?: number;
+  role?: ClubMemberRoleEnum;
+}
 
 class ClubService {
   /**
-   * Get all clubs
-   * @returns Array of all clubs
+   * List the clubs visible to the viewer - private clubs are listed only to
+   * their members. Supports filters, search on name and description, sorting
+   * and page based pagination. The nearest sort lists clubs without a
+   * location last
+   * @param viewer The connected user
+   * @param query Filters, search, sort, page and limit
+   * @returns Page of clubs (without member lists) and pagination info
    */
-  async getAllClubs() {
-    return await Club.find({})
-      .populate("admin", "firstName lastName image")
-      .populate("captains", "firstName lastName image")
-      .populate("members.userId", "firstName lastName image");
+  async getAllClubs(viewer: ClubViewer, query: ClubListQuery = {}) {
+    const options = this.resolveListOptions(query);
+    const viewerId = new mongoose.Types.ObjectId(viewer.id);
+
+    const conditions: Record<string, unknown>[] = [];
+    if (viewer.role !== UserRoleEnum.SUPER_ADMIN) {
+      conditions.push({
+        $or: [{ isPrivet: false }, { "members.userId": viewerId }],
+      });
+    }
+    if (options.sportCategory) {
+      conditions.push({ sportCategory: options.sportCategory });
+    }
+    if (options.status) {
+      conditions.push({ status: options.status });
+    }
+    if (options.isPrivet !== undefined) {
+      conditions.push({ isPrivet: options.isPrivet });
+    }
+    if (query.city) {
+      conditions.push({ "location.city": exactMatch(query.city) });
+    }
+    if (query.country) {
+      conditions.push({ "location.country": exactMatch(query.country) });
+    }
+    if (options.hasFreeSpots) {
+      conditions.push({
+        status: { $ne: ClubStatusEnum.FULL },
+        // מגבלה 0 משמעה ללא הגבלת שחקנים
+        $expr: {
+          $or: [
+            { $eq: ["$maxPlayers", 0] },
+            { $lt: [{ $size: "$members" }, "$maxPlayers"] },
+          ],
+        },
+      });
+    }
+    if (query.search?.trim()) {
+      const search = new RegExp(escapeRegex(query.search.trim()), "i");
+      conditions.push({ $or: [{ name: search }, { description: search }] });
+    }
+    const filter = conditions.length ? { $and: conditions } : {};
+
+    // מיון לפי מרחק דורש $geoNear כשלב הראשון
+    const pipeline: PipelineStage[] =
+      options.sort === ClubSortEnum.NEAREST
+        ? [
+            {
+              $geoNear: {
+                near: await geoService.resolveOrigin(
+                  viewer.id,
+                  query.lat,
+                  query.lng
+                ),
+                key: "location.point",
+                distanceField: "distance",
+                spherical: true,
+              },
+            },
+            // הסינון אחרי $geoNear כי השאילתה שלו אינה תומכת ב-$expr
+            { $match: filter },
+            {
+              $addFields: {
+                located: true,
+                distanceKm: { $round: [{ $divide: ["$distance", 1000] }, 2] },
+              },
+            },
+            // $geoNear מדלג על קבוצות ללא נקודה - הן מצורפות אחרי הממוקמות
+            {
+              $unionWith: {
+                coll: Club.collection.name,
+                pipeline: [
+                  {
+                    $match: {
+                      $and: [
+                        filter,
+                        { "location.point.coordinates": { $exists: false } },
+                      ],
+                    },
+                  },
+                  { $addFields: { located: false, distanceKm: null } },
+                ],
+              },
+            },
+          ]
+        : [{ $match: filter }];
+
+    const sortStage: Record<ClubSortEnum, Record<string, 1 | -1>> = {
+      [ClubSortEnum.NEWEST]: { createdAt: -1, _id: -1 },
+      [ClubSortEnum.MOST_MEMBERS]: { membersCount: -1, _id: 1 },
+      [ClubSortEnum.NEAREST]: { located: -1, distance: 1, _id: 1 },
+    };
+
+    const [result] = await Club.aggregate([
+      ...pipeline,
+      {
+        $addFields: {
+          membersCount: { $size: "$members" },
+          isMember: { $in: [viewerId, "$members.userId"] },
+        },
+      },
+      { $sort: sortStage[options.sort] },
+      {
+        $facet: {
+          data: [
+            { $skip: (options.page - 1) * options.limit },
+            { $limit: options.limit },
+            {
+              $lookup: {
+                from: User.collection.name,
+                localField: "admin",
+                foreignField: "_id",
+                as: "admin",
+                pipeline: [
+                  { $project: { firstName: 1, lastName: 1, image: 1 } },
+                ],
+              },
+            },
+            { $unwind: { path: "$admin", preserveNullAndEmptyArrays: true } },
+            // רשימות החברים והבקשות זמינות רק בדף הקבוצה לפי הרשאות
+            {
+              $project: {
+                members: 0,
+                pendingRequests: 0,
+                invitations: 0,
+                bannedUsers: 0,
+                inviteCodes: 0,
+                distance: 0,
+                located: 0,
+                __v: 0,
+              },
+            },
+          ],
+          total: [{ $count: "count" }],
+        },
+      },
+    ]);
+
+    const total = result?.total[0]?.count || 0;
+    const pages = Math.ceil(total / options.limit);
+
+    return {
+      data: result?.data || [],
+      pagination: {
+        page: options.page,
+        limit: options.limit,
+        total,
+        pages,
+        nextPage: options.page < pages ? options.page + 1 : null,
+      },
+    };
   }
 
   /**
-   * Get club by ID
+   * Get club by ID. A private club is found only by its members and by
+   * users invited to it
    * @param id Club ID
-   * @returns Club or null if not found
+   * @param viewer The connected user
+   * @returns Club shaped for the viewer or null if not found
    */
-  async getClubById(id: string) {
+  async getClubById(id: string, viewer: ClubViewer) {
     if (!mongoose.Types.ObjectId.isValid(id)) {
       throw AppError.badRequest("Invalid club ID");
     }
-    return await Club.findById(id)
+    const club = await Club.findById(id)
       .populate("admin", "firstName lastName image")
       .populate("captains", "firstName lastName image")
       .populate("members.userId", "firstName lastName image")
-      .populate("pendingRequests.userId", "firstName lastName image");
+      .populate("pendingRequests.userId", "firstName lastName image")
+      .populate("invitations.userId", "firstName lastName image");
+    if (!club) {
+      return null;
+    }
+
+    // קבוצה פרטית מוסתרת כאילו אינה קיימת
+    if (
+      club.isPrivet &&
+      viewer.role !== UserRoleEnum.SUPER_ADMIN &&
+      !getClubRoles(club, viewer.id).isMember &&
+      !club.invitations.some(
+        (invitation) =>
+          (invitation.userId._id ?? invitation.userId).toString() === viewer.id
+      )
+    ) {
+      return null;
+    }
+
+    return this.toClubView(club, viewer);
   }
 
   /**
@@ -39,7 +273,11 @@ class ClubService {
    * @param userRole Role of the user creating the club
    * @returns Created club
    */
-  async createClub(clubData: any, userId: string, userRole: UserRoleEnum) {
+  async createClub(
+    clubData: CreateClubDto,
+    userId: string,
+    userRole: UserRoleEnum
+  ) {
     // בדיקה שלמשתמש יש הרשאות מנוי ליצירת קבוצה
     const user = await User.findById(userId);
     if (!user) {
@@ -111,7 +349,7 @@ class ClubService {
    * @param userId ID of the user making the update
    * @returns Updated club or null if not found or not authorized
    */
-  async updateClub(clubId: string, updateData: any, userId: string) {
+  async updateClub(clubId: string, updateData: UpdateClubDto, userId: string) {
     if (!mongoose.Types.ObjectId.isValid(clubId)) {
       throw AppError.badRequest("Invalid club ID");
     }
@@ -133,12 +371,12 @@ class ClubService {
     }
 
     // אם המשתמש הוא קפטן, הוא יכול לעדכן רק חלק מהשדות
-    if (!isAdmin && isCaptain) {
-      // הסרת שדות שקפטן לא יכול לעדכן
-      delete updateData.admin;
-      delete updateData.captains;
-      delete updateData.maxPlayers;
-      delete updateData.status;
+    if (!isAdmin) {
+      assertUpdatableFields(
+        updateData,
+        CLUB_CAPTAIN_UPDATABLE_FIELDS,
+        "club captains"
+      );
     }
 
     // עדכון הקבוצה
@@ -187,7 +425,16 @@ class ClubService {
       { $pull: { clubsRequests: clubId } }
     );
 
-    // 3. עדכון מנוי המנהל
+    // 3. הזמנות שלא נענו
+    const invitedUserIds = club.invitations.map(
+      (invitation) => invitation.userId
+    );
+    await User.updateMany(
+      { _id: { $in: invitedUserIds } },
+      { $pull: { clubsInvitations: clubId } }
+    );
+
+    // 4. עדכון מנוי המנהל
     await User.findByIdAndUpdate(userId, {
       $pull: { "subscriptions.clubIds": clubId },
     });
@@ -267,6 +514,24 @@ class ClubService {
       throw AppError.notFound("Club not found");
     }
 
+    // לקבוצה פרטית מצטרפים רק בהזמנה או בקוד הזמנה
+    if (club.isPrivet) {
+      throw AppError.forbidden(
+        "This club is private and can only be joined by invitation"
+      );
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+      throw AppError.notFound("User not found");
+    }
+    this.assertEmailVerified(user);
+
+    // משתמש שהורחק מהקבוצה אינו יכול לבקש להצטרף מחדש
+    if (club.bannedUsers.some((bannedId) => bannedId.toString() === userId)) {
+      throw AppError.forbidden("You are banned from this club");
+    }
+
     // בדיקה שהקבוצה לא מלאה
     if (club.status === ClubStatusEnum.FULL) {
       throw AppError.badRequest("Club is full");
@@ -398,52 +663,12 @@ class ClubService {
       return false;
     }
 
-    // בדיקה שהקבוצה לא מלאה
-    if (
-      club.status === ClubStatusEnum.FULL ||
-      (club.maxPlayers > 0 && club.members.length >= club.maxPlayers)
-    ) {
-      throw AppError.badRequest("Club is full");
-    }
-
-    // עדכון סטטוס הקבוצה אם היא מתמלאת
-    let clubUpdate: any = {
-      $pull: {
-        pendingRequests: { userId: new mongoose.Types.ObjectId(requestUserId) },
-      },
-      $push: {
-        members: {
-          userId: new mongoose.Types.ObjectId(requestUserId),
-          skillRating: requestingUser.avgSkillRating || 0,
-          positions: requestingUser.positions || [],
-          goals: 0,
-          assists: 0,
-          points: 0,
-          matchesCount: 0,
-        },
-      },
-    };
-
     // אם התפקיד המבוקש הוא קפטן, וגם המנהל מאשר (לא קפטן אחר)
-    if (requestedRole === "captain" && isAdmin) {
-      clubUpdate.$addToSet = {
-        captains: new mongoose.Types.ObjectId(requestUserId),
-      };
-    }
-
-    // בדיקה אם הקבוצה עומדת להתמלא
-    if (club.maxPlayers > 0 && club.members.length + 1 >= club.maxPlayers) {
-      clubUpdate.status = ClubStatusEnum.FULL;
-    }
-
-    // עדכון הקבוצה
-    await Club.findByIdAndUpdate(clubId, clubUpdate);
-
-    // עדכון המשתמש
-    await User.findByIdAndUpdate(requestUserId, {
-      $pull: { clubsRequests: clubId },
-      $addToSet: { clubs: clubId },
-    });
+    await this.addMember(
+      club,
+      requestingUser,
+      requestedRole === ClubMemberRoleEnum.CAPTAIN && isAdmin
+    );
 
     return true;
   }
@@ -504,6 +729,773 @@ class ClubService {
 
     return true;
   }
+
+  /**
+   * Promote a member to captain (admin only)
+   * @param clubId Club ID
+   * @param memberId ID of the member to promote
+   * @param adminUserId ID of the club admin
+   * @returns Updated club
+   */
+  async promoteCaptain(clubId: string, memberId: string, adminUserId: string) {
+    const club = await this.getAdminClub(clubId, memberId, adminUserId);
+    this.assertMember(club, memberId);
+
+    if (club.admin.toString() === memberId) {
+      throw AppError.badRequest("The club admin cannot be a captain");
+    }
+    if (club.captains.some((captainId) => captainId.toString() === memberId)) {
+      throw AppError.conflict("Member is already a captain");
+    }
+
+    return await Club.findByIdAndUpdate(
+      clubId,
+      { $addToSet: { captains: new mongoose.Types.ObjectId(memberId) } },
+      { new: true }
+    );
+  }
+
+  /**
+   * Demote a captain back to a regular member (admin only)
+   * @param clubId Club ID
+   * @param memberId ID of the captain to demote
+   * @param adminUserId ID of the club admin
+   * @returns Updated club
+   */
+  async demoteCaptain(clubId: string, memberId: string, adminUserId: string) {
+    const club = await this.getAdminClub(clubId, memberId, adminUserId);
+
+    if (!club.captains.some((captainId) => captainId.toString() === memberId)) {
+      throw AppError.notFound("Member is not a captain of this club");
+    }
+
+    return await Club.findByIdAndUpdate(
+      clubId,
+      { $pull: { captains: new mongoose.Types.ObjectId(memberId) } },
+      { new: true }
+    );
+  }
+
+  /**
+   * Transfer the club ownership to another member (admin only).
+   * The previous admin stays in the club as a captain
+   * @param clubId Club ID
+   * @param newAdminId ID of the member who becomes the admin
+   * @param adminUserId ID of the current club admin
+   * @returns Updated club
+   */
+  async transferOwnership(
+    clubId: string,
+    newAdminId: string,
+    adminUserId: string
+  ) {
+    const club = await this.getAdminClub(clubId, newAdminId, adminUserId);
+    this.assertMember(club, newAdminId);
+
+    if (newAdminId === adminUserId) {
+      throw AppError.badRequest("You are already the club admin");
+    }
+
+    const newAdmin = await User.findById(newAdminId);
+    if (!newAdmin) {
+      throw AppError.notFound("User not found");
+    }
+
+    // המנהל החדש חייב מנוי שמאפשר ניהול קבוצה נוספת
+    if (newAdmin.role !== UserRoleEnum.SUPER_ADMIN) {
+      if (
+        ![
+          UserRoleEnum.SILVER,
+          UserRoleEnum.GOLD,
+          UserRoleEnum.PREMIUM,
+        ].includes(newAdmin.role as UserRoleEnum)
+      ) {
+        throw AppError.badRequest(
+          "The new admin must have a subscription plan that allows managing clubs"
+        );
+      }
+
+      const maxClubs = newAdmin.subscriptions?.maxClubs || 0;
+      const clubCount = await Club.countDocuments({ admin: newAdminId });
+      if (maxClubs > 0 && clubCount >= maxClubs) {
+        throw AppError.badRequest(
+          `The new admin has reached the maximum limit of ${maxClubs} clubs for their subscription`
+        );
+      }
+    }
+
+    // העדכון מותנה במנהל הנוכחי כדי שהעברה מקבילה לא תדרוס אותו
+    const updatedClub = await Club.findOneAndUpdate(
+      { _id: clubId, admin: adminUserId },
+      [
+        {
+          $set: {
+            admin: new mongoose.Types.ObjectId(newAdminId),
+            captains: {
+              $setUnion: [
+                {
+                  $setDifference: [
+                    "$captains",
+                    [new mongoose.Types.ObjectId(newAdminId)],
+                  ],
+                },
+                [new mongoose.Types.ObjectId(adminUserId)],
+              ],
+            },
+          },
+        },
+      ],
+      { new: true }
+    );
+    if (!updatedClub) {
+      throw AppError.conflict("Club ownership was changed by another request");
+    }
+
+    // העברת הקבוצה בין מנויי המנהלים
+    await User.findByIdAndUpdate(adminUserId, {
+      $pull: { "subscriptions.clubIds": clubId },
+    });
+    await User.findByIdAndUpdate(newAdminId, {
+      $addToSet: { "subscriptions.clubIds": clubId },
+    });
+
+    return updatedClub;
+  }
+
+  /**
+   * Remove a member from the club, optionally banning them from sending
+   * new join requests (admin only)
+   * @param clubId Club ID
+   * @param memberId ID of the member to remove
+   * @param adminUserId ID of the club admin
+   * @param ban Whether to ban the member
+   * @returns Updated club
+   */
+  async removeMember(
+    clubId: string,
+    memberId: string,
+    adminUserId: string,
+    ban = false
+  ) {
+    const club = await this.getAdminClub(clubId, memberId, adminUserId);
+
+    if (memberId === adminUserId) {
+      throw AppError.badRequest(
+        "Club admin cannot remove themselves. Transfer ownership or delete the club instead."
+      );
+    }
+
+    const isMember = club.members.some(
+      (member) => member.userId.toString() === memberId
+    );
+    // ניתן להרחיק גם משתמש שאינו חבר (למשל בעל בקשה ממתינה)
+    if (!isMember && !ban) {
+      throw AppError.notFound("User is not a member of this club");
+    }
+
+    const memberObjectId = new mongoose.Types.ObjectId(memberId);
+    const clubUpdate: mongoose.UpdateQuery<IClub> = {
+      $pull: {
+        members: { userId: memberObjectId },
+        captains: memberObjectId,
+        pendingRequests: { userId: memberObjectId },
+      },
+    };
+    if (ban) {
+      clubUpdate.$addToSet = { bannedUsers: memberObjectId };
+    }
+    // פינוי מקום בקבוצה מלאה
+    if (isMember && club.status === ClubStatusEnum.FULL) {
+      clubUpdate.status = ClubStatusEnum.ACTIVE;
+    }
+
+    const updatedClub = await Club.findByIdAndUpdate(clubId, clubUpdate, {
+      new: true,
+    });
+
+    // הסרת הקבוצה מהמשתמש
+    await User.findByIdAndUpdate(memberId, {
+      $pull: { clubs: clubId, clubsRequests: clubId },
+    });
+
+    return updatedClub;
+  }
+
+  /**
+   * Lift the ban of a user so they can send join requests again (admin only)
+   * @param clubId Club ID
+   * @param bannedUserId ID of the banned user
+   * @param adminUserId ID of the club admin
+   * @returns Updated club
+   */
+  async unbanMember(clubId: string, bannedUserId: string, adminUserId: string) {
+    const club = await this.getAdminClub(clubId, bannedUserId, adminUserId);
+
+    if (
+      !club.bannedUsers.some((bannedId) => bannedId.toString() === bannedUserId)
+    ) {
+      throw AppError.notFound("User is not banned from this club");
+    }
+
+    return await Club.findByIdAndUpdate(
+      clubId,
+      { $pull: { bannedUsers: new mongoose.Types.ObjectId(bannedUserId) } },
+      { new: true }
+    );
+  }
+
+  /**
+   * Invite a user to join the club (admin or captain only).
+   * Only the admin can invite a user as a captain
+   * @param clubId Club ID
+   * @param inviteeId ID of the invited user
+   * @param inviterId ID of the admin/captain sending the invitation
+   * @param role Role the user will have in the club
+   * @returns true if the invitation was sent
+   */
+  async inviteUser(
+    clubId: string,
+    inviteeId: string,
+    inviterId: string,
+    role = ClubMemberRoleEnum.USER
+  ) {
+    const { club, isAdmin } = await this.getManagerClub(
+      clubId,
+      inviteeId,
+      inviterId
+    );
+
+    if (!Object.values(ClubMemberRoleEnum).includes(role)) {
+      throw AppError.badRequest("Invalid club role");
+    }
+    if (role === ClubMemberRoleEnum.CAPTAIN && !isAdmin) {
+      throw AppError.forbidden("Only the club admin can invite captains");
+    }
+    if (
+      club.bannedUsers.some((bannedId) => bannedId.toString() === inviteeId)
+    ) {
+      throw AppError.badRequest(
+        "User is banned from this club. Lift the ban before inviting them."
+      );
+    }
+    if (club.members.some((member) => member.userId.toString() === inviteeId)) {
+      throw AppError.conflict("User is already a member of this club");
+    }
+    if (
+      club.invitations.some(
+        (invitation) => invitation.userId.toString() === inviteeId
+      )
+    ) {
+      throw AppError.conflict("User has already been invited to this club");
+    }
+    if (
+      club.pendingRequests.some(
+        (request) => request.userId.toString() === inviteeId
+      )
+    ) {
+      throw AppError.conflict(
+        "User has already requested to join. Accept the join request instead."
+      );
+    }
+
+    const invitee = await User.findById(inviteeId);
+    if (!invitee) {
+      throw AppError.notFound("User not found");
+    }
+
+    // הוספת ההזמנה לקבוצה
+    await Club.findByIdAndUpdate(clubId, {
+      $push: {
+        invitations: {
+          userId: new mongoose.Types.ObjectId(inviteeId),
+          invitedBy: new mongoose.Types.ObjectId(inviterId),
+          role,
+        },
+      },
+    });
+
+    // הוספת הקבוצה להזמנות של המשתמש
+    await User.findByIdAndUpdate(inviteeId, {
+      $addToSet: { clubsInvitations: clubId },
+    });
+
+    return true;
+  }
+
+  /**
+   * Cancel an invitation that was not answered yet (admin or captain only)
+   * @param clubId Club ID
+   * @param inviteeId ID of the invited user
+   * @param managerId ID of the admin/captain cancelling the invitation
+   * @returns true if cancelled
+   */
+  async cancelInvitation(clubId: string, inviteeId: string, managerId: string) {
+    const { club } = await this.getManagerClub(clubId, inviteeId, managerId);
+    this.getInvitation(club, inviteeId);
+
+    await this.removeInvitation(clubId, inviteeId);
+    return true;
+  }
+
+  /**
+   * Get the clubs that invited the user
+   * @param userId ID of the user
+   * @returns Clubs with the invitation of the user
+   */
+  async getUserInvitations(userId: string) {
+    return await Club.find({ "invitations.userId": userId })
+      .select("name image sportCategory location invitations.$")
+      .populate("invitations.invitedBy", "firstName lastName image");
+  }
+
+  /**
+   * Accept an invitation and join the club
+   * @param clubId Club ID
+   * @param userId ID of the invited user
+   * @returns true if joined
+   */
+  async acceptInvitation(clubId: string, userId: string) {
+    if (!mongoose.Types.ObjectId.isValid(clubId)) {
+      throw AppError.badRequest("Invalid club ID");
+    }
+
+    const club = await Club.findById(clubId);
+    if (!club) {
+      throw AppError.notFound("Club not found");
+    }
+    const invitation = this.getInvitation(club, userId);
+
+    const user = await User.findById(userId);
+    if (!user) {
+      throw AppError.notFound("User not found");
+    }
+
+    await this.addMember(
+      club,
+      user,
+      invitation.role === ClubMemberRoleEnum.CAPTAIN
+    );
+    return true;
+  }
+
+  /**
+   * Decline an invitation
+   * @param clubId Club ID
+   * @param userId ID of the invited user
+   * @returns true if declined
+   */
+  async declineInvitation(clubId: string, userId: string) {
+    if (!mongoose.Types.ObjectId.isValid(clubId)) {
+      throw AppError.badRequest("Invalid club ID");
+    }
+
+    const club = await Club.findById(clubId);
+    if (!club) {
+      throw AppError.notFound("Club not found");
+    }
+    this.getInvitation(club, userId);
+
+    await this.removeInvitation(clubId, userId);
+    return true;
+  }
+
+  /**
+   * Create a shareable invite code that lets users join the club directly
+   * (admin or captain only). Only the admin can create captain codes
+   * @param clubId Club ID
+   * @param managerId ID of the admin/captain creating the code
+   * @param options Expiration, usage limit and role of the code
+   * @returns Created invite code
+   */
+  async createInviteCode(
+    clubId: string,
+    managerId: string,
+    options: InviteCodeOptions = {}
+  ) {
+    const { isAdmin } = await this.getManagerClub(clubId, managerId, managerId);
+
+    const role = options.role || ClubMemberRoleEnum.USER;
+    if (!Object.values(ClubMemberRoleEnum).includes(role)) {
+      throw AppError.badRequest("Invalid club role");
+    }
+    if (role === ClubMemberRoleEnum.CAPTAIN && !isAdmin) {
+      throw AppError.forbidden("Only the club admin can create captain codes");
+    }
+
+    const expiresInHours = Math.min(
+      Math.max(Number(options.expiresInHours) || DEFAULT_INVITE_CODE_HOURS, 1),
+      MAX_INVITE_CODE_HOURS
+    );
+    const maxUses = Math.min(
+      Math.max(
+        Math.floor(Number(options.maxUses)) || DEFAULT_INVITE_CODE_USES,
+        1
+      ),
+      MAX_INVITE_CODE_USES
+    );
+
+    const inviteCode = {
+      code: crypto.randomBytes(6).toString("base64url"),
+      createdBy: new mongoose.Types.ObjectId(managerId),
+      role,
+      expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+      maxUses,
+      uses: 0,
+    };
+
+    // ניקוי קודים שפגו או נוצלו במלואם יחד עם הוספת הקוד החדש
+    await Club.findByIdAndUpdate(clubId, {
+      $pull: { inviteCodes: { expiresAt: { $lte: new Date() } } },
+    });
+    await Club.findByIdAndUpdate(clubId, {
+      $push: { inviteCodes: inviteCode },
+    });
+
+    return inviteCode;
+  }
+
+  /**
+   * Get the active invite codes of a club (admin or captain only)
+   * @param clubId Club ID
+   * @param managerId ID of the admin/captain
+   * @returns Invite codes that are not expired or used up
+   */
+  async getInviteCodes(clubId: string, managerId: string) {
+    await this.getManagerClub(clubId, managerId, managerId);
+
+    const club = await Club.findById(clubId).select("+inviteCodes");
+    const now = new Date();
+    return (club?.inviteCodes || []).filter(
+      (inviteCode) =>
+        inviteCode.expiresAt > now && inviteCode.uses < inviteCode.maxUses
+    );
+  }
+
+  /**
+   * Revoke an invite code (admin or captain only)
+   * @param clubId Club ID
+   * @param code Invite code
+   * @param managerId ID of the admin/captain
+   * @returns true if revoked
+   */
+  async revokeInviteCode(clubId: string, code: string, managerId: string) {
+    await this.getManagerClub(clubId, managerId, managerId);
+
+    const result = await Club.updateOne(
+      { _id: clubId },
+      { $pull: { inviteCodes: { code } } }
+    );
+    if (!result.modifiedCount) {
+      throw AppError.notFound("Invite code not found");
+    }
+
+    return true;
+  }
+
+  /**
+   * Join a club using an invite code
+   * @param code Invite code
+   * @param viewer The user joining
+   * @returns The joined club
+   */
+  async joinByCode(code: string, viewer: ClubViewer) {
+    const userId = viewer.id;
+    const club = await Club.findOne({ "inviteCodes.code": code }).select(
+      "+inviteCodes"
+    );
+    const inviteCode = club?.inviteCodes.find(
+      (inviteCode) => inviteCode.code === code
+    );
+    if (!club || !inviteCode) {
+      throw AppError.notFound("Invalid invite code");
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+      throw AppError.notFound("User not found");
+    }
+
+    // בדיקות ההצטרפות לפני ניצול הקוד, כדי שכישלון לא יגרע שימוש
+    this.assertCanJoin(club, user);
+
+    // ניצול אטומי של הקוד - מונע חריגה ממכסת השימושים בבקשות מקבילות
+    const result = await Club.updateOne(
+      {
+        _id: club._id,
+        inviteCodes: {
+          $elemMatch: {
+            code,
+            expiresAt: { $gt: new Date() },
+            uses: { $lt: inviteCode.maxUses },
+          },
+        },
+      },
+      { $inc: { "inviteCodes.$.uses": 1 } }
+    );
+    if (!result.modifiedCount) {
+      throw AppError.badRequest(
+        "Invite code has expired or reached its usage limit"
+      );
+    }
+
+    await this.addMember(
+      club,
+      user,
+      inviteCode.role === ClubMemberRoleEnum.CAPTAIN
+    );
+
+    return await this.getClubById(club.id, viewer);
+  }
+
+  /**
+   * Validate and normalise the club listing query
+   * @param query Club listing query
+   * @returns Normalised listing options
+   */
+  private resolveListOptions(query: ClubListQuery): ClubListOptions {
+    const sort = (query.sort || ClubSortEnum.NEWEST) as ClubSortEnum;
+    if (!Object.values(ClubSortEnum).includes(sort)) {
+      throw AppError.badRequest(
+        `Sort must be one of: ${Object.values(ClubSortEnum).join(", ")}`
+      );
+    }
+
+    if (
+      query.sportCategory &&
+      !Object.values(SportCategoryEnum).includes(
+        query.sportCategory as SportCategoryEnum
+      )
+    ) {
+      throw AppError.badRequest("Invalid sport category");
+    }
+
+    if (
+      query.status &&
+      !Object.values(ClubStatusEnum).includes(query.status as ClubStatusEnum)
+    ) {
+      throw AppError.badRequest("Invalid club status");
+    }
+
+    if (query.visibility && !["public", "private"].includes(query.visibility)) {
+      throw AppError.badRequest("Visibility must be one of: public, private");
+    }
+
+    return {
+      sort,
+      sportCategory: query.sportCategory as SportCategoryEnum | undefined,
+      status: query.status as ClubStatusEnum | undefined,
+      isPrivet: query.visibility ? query.visibility === "private" : undefined,
+      hasFreeSpots: query.hasFreeSpots === "true",
+      page: Math.max(Math.floor(Number(query.page)) || 1, 1),
+      limit: Math.min(
+        Math.max(Math.floor(Number(query.limit)) || DEFAULT_LIST_LIMIT, 1),
+        MAX_LIST_LIMIT
+      ),
+    };
+  }
+
+  /**
+   * Shape a club for the viewer - the member list (with its stats) is shown
+   * only to members, and pending requests, invitations and bans only to the
+   * admin and captains
+   */
+  private toClubView(club: IClub, viewer: ClubViewer) {
+    const { isAdmin, isCaptain, isMember } = getClubRoles(club, viewer.id);
+    const isSuperAdmin = viewer.role === UserRoleEnum.SUPER_ADMIN;
+
+    const view: Record<string, unknown> = {
+      ...club.toJSON(),
+      membersCount: club.members.length,
+    };
+
+    if (!isMember && !isSuperAdmin) {
+      delete view.members;
+    }
+    if (!isAdmin && !isCaptain && !isSuperAdmin) {
+      delete view.pendingRequests;
+      delete view.invitations;
+      delete view.bannedUsers;
+    }
+
+    return view;
+  }
+
+  /**
+   * Make sure a user verified their email before joining clubs
+   */
+  private assertEmailVerified(user: UserDocument) {
+    // רק חשבונות שממתינים לאימות נחסמים - חשבונות ותיקים אינם ממתינים
+    if (
+      !user.isEmailVerified &&
+      user.accountStatus === AccountStatusEnum.PENDING_VERIFICATION
+    ) {
+      throw AppError.forbidden(
+        "The user must verify their email address before joining clubs"
+      );
+    }
+  }
+
+  /**
+   * Make sure a user can join the club - verified, not banned, not a member
+   * and the club is not full
+   */
+  private assertCanJoin(club: IClub, user: UserDocument) {
+    const userId = user.id as string;
+    this.assertEmailVerified(user);
+    if (club.bannedUsers.some((bannedId) => bannedId.toString() === userId)) {
+      throw AppError.forbidden("User is banned from this club");
+    }
+    if (club.members.some((member) => member.userId.toString() === userId)) {
+      throw AppError.conflict("User is already a member of this club");
+    }
+    if (
+      club.status === ClubStatusEnum.FULL ||
+      (club.maxPlayers > 0 && club.members.length >= club.maxPlayers)
+    ) {
+      throw AppError.badRequest("Club is full");
+    }
+  }
+
+  /**
+   * Add a user to the club members and clear their pending request and
+   * invitation - shared by join requests, invitations and invite codes
+   * @param club Club to join
+   * @param user User joining the club
+   * @param asCaptain Whether the user joins as a captain
+   */
+  private async addMember(club: IClub, user: UserDocument, asCaptain: boolean) {
+    const userId = user.id as string;
+    this.assertCanJoin(club, user);
+
+    const userObjectId = new mongoose.Types.ObjectId(userId);
+    const clubUpdate: mongoose.UpdateQuery<IClub> = {
+      $pull: {
+        pendingRequests: { userId: userObjectId },
+        invitations: { userId: userObjectId },
+      },
+      $push: {
+        members: {
+          userId: userObjectId,
+          skillRating: user.avgSkillRating || 0,
+          positions: user.positions || [],
+          goals: 0,
+          assists: 0,
+          points: 0,
+          matchesCount: 0,
+        },
+      },
+    };
+
+    if (asCaptain) {
+      clubUpdate.$addToSet = { captains: userObjectId };
+    }
+
+    // בדיקה אם הקבוצה עומדת להתמלא
+    if (club.maxPlayers > 0 && club.members.length + 1 >= club.maxPlayers) {
+      clubUpdate.status = ClubStatusEnum.FULL;
+    }
+
+    // עדכון הקבוצה
+    await Club.findByIdAndUpdate(club.id, clubUpdate);
+
+    // עדכון המשתמש
+    await User.findByIdAndUpdate(userId, {
+      $pull: { clubsRequests: club.id, clubsInvitations: club.id },
+      $addToSet: { clubs: club.id },
+    });
+  }
+
+  /**
+   * Get the invitation of a user, throwing if the user was not invited
+   */
+  private getInvitation(club: IClub, userId: string) {
+    const invitation = club.invitations.find(
+      (invitation) => invitation.userId.toString() === userId
+    );
+    if (!invitation) {
+      throw AppError.notFound("No pending invitation to this club");
+    }
+    return invitation;
+  }
+
+  private async removeInvitation(clubId: string, userId: string) {
+    await Club.findByIdAndUpdate(clubId, {
+      $pull: {
+        invitations: { userId: new mongoose.Types.ObjectId(userId) },
+      },
+    });
+    await User.findByIdAndUpdate(userId, {
+      $pull: { clubsInvitations: clubId },
+    });
+  }
+
+  /**
+   * Get a club, verifying the acting user is its admin or one of its captains
+   */
+  private async getManagerClub(
+    clubId: string,
+    targetUserId: string,
+    managerId: string
+  ) {
+    if (
+      !mongoose.Types.ObjectId.isValid(clubId) ||
+      !mongoose.Types.ObjectId.isValid(targetUserId)
+    ) {
+      throw AppError.badRequest("Invalid ID format");
+    }
+
+    const club = await Club.findById(clubId);
+    if (!club) {
+      throw AppError.notFound("Club not found");
+    }
+
+    const isAdmin = club.admin.toString() === managerId;
+    const isCaptain = club.captains.some(
+      (captainId) => captainId.toString() === managerId
+    );
+    if (!isAdmin && !isCaptain) {
+      throw AppError.forbidden(
+        "Only the club admin or captains can manage invitations"
+      );
+    }
+
+    return { club, isAdmin };
+  }
+
+  /**
+   * Get a club for a membership change, verifying the acting user is its admin
+   */
+  private async getAdminClub(
+    clubId: string,
+    targetUserId: string,
+    adminUserId: string
+  ) {
+    if (
+      !mongoose.Types.ObjectId.isValid(clubId) ||
+      !mongoose.Types.ObjectId.isValid(targetUserId)
+    ) {
+      throw AppError.badRequest("Invalid ID format");
+    }
+
+    const club = await Club.findById(clubId);
+    if (!club) {
+      throw AppError.notFound("Club not found");
+    }
+    if (club.admin.toString() !== adminUserId) {
+      throw AppError.forbidden("Only the club admin can manage members");
+    }
+
+    return club;
+  }
+
+  private assertMember(
+    club: { members: { userId: mongoose.Types.ObjectId }[] },
+    userId: string
+  ) {
+    if (!club.members.some((member) => member.userId.toString() === userId)) {
+      throw AppError.notFound("User is not a member of this club");
+    }
+  }
 }
 
 export const clubService = new ClubService();
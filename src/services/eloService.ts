@@ -0,0 +1,161 @@
+import mongoose, { ClientSession } from "mongoose";
+import User from "../models/User";
+import RatingHistory from "../models/RatingHistory";
+import { IMatchBase, IMatchPlayerStats } from "../models/Match";
+import { AppError } from "../middleware/errorMiddleware";
+import { SportCategoryEnum } from "../types/enums";
+import {
+  calculateEloChanges,
+  EloPlayer,
+  INITIAL_ELO_RATING,
+} from "../utils/rating";
+
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_HISTORY_LIMIT = 200;
+
+class EloService {
+  /**
+   * Update the Elo rating of every player of a finalized match and record
+   * the change in the rating history
+   * @param match Finalized match
+   * @param stats Players of the match and their teams
+   * @param session Transaction session of the match finalization, if any
+   */
+  async applyMatchRatings(
+    match: IMatchBase,
+    stats: IMatchPlayerStats[],
+    session?: ClientSession
+  ) {
+    const sport = match.sportCategory;
+    const users = await User.find({
+      _id: { $in: stats.map((stat) => stat.userId) },
+    })
+      .select("sportRatings")
+      .session(session ?? null);
+    const usersById = new Map(users.map((user) => [user.id, user]));
+
+    const teams = match.teams.map((team) =>
+      stats
+        .filter((stat) => stat.team === team)
+        .map((stat): EloPlayer => {
+          const sportRating = usersById.get(stat.userId.toString())
+            ?.sportRatings?.[sport];
+          return {
+            userId: stat.userId.toString(),
+            rating: sportRating?.rating ?? INITIAL_ELO_RATING,
+            matchesCount: sportRating?.matchesCount ?? 0,
+          };
+        })
+    ) as [EloPlayer[], EloPlayer[]];
+
+    const changes = calculateEloChanges(teams, match.result);
+    if (!changes.length) {
+      return;
+    }
+
+    await User.bulkWrite(
+      changes.map((change) => ({
+        updateOne: {
+          filter: { _id: change.userId },
+          update: {
+            $set: { [`sportRatings.${sport}.rating`]: change.ratingAfter },
+            $inc: { [`sportRatings.${sport}.matchesCount`]: 1 },
+          },
+        },
+      })),
+      { session }
+    );
+
+    await RatingHistory.insertMany(
+      changes.map((change) => ({
+        ...change,
+        sportCategory: sport,
+        matchId: match._id,
+      })),
+      { session }
+    );
+  }
+
+  /**
+   * Undo the rating changes of a match using the stored deltas
+   * @param matchId Match ID
+   * @param session Transaction session, if any
+   */
+  async reverseMatchRatings(
+    matchId: mongoose.Types.ObjectId,
+    session?: ClientSession
+  ) {
+    const history = await RatingHistory.find({ matchId }).session(
+      session ?? null
+    );
+    if (!history.length) {
+      return;
+    }
+
+    await User.bulkWrite(
+      history.map((entry) => ({
+        updateOne: {
+          filter: { _id: entry.userId },
+          update: {
+            $inc: {
+              [`sportRatings.${entry.sportCategory}.rating`]: -entry.delta,
+              [`sportRatings.${entry.sportCategory}.matchesCount`]: -1,
+            },
+          },
+        },
+      })),
+      { session }
+    );
+
+    await RatingHistory.deleteMany({ matchId }, { session });
+  }
+
+  /**
+   * Get the rating history of a player in a sport, newest first
+   * @param userId ID of the player
+   * @param sportCategory Sport category
+   * @param limit Number of entries to return
+   * @returns Current rating and history entries
+   */
+  async getRatingHistory(
+    userId: string,
+    sportCategory: string,
+    limit?: number
+  ) {
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      throw AppError.badRequest("Invalid user ID");
+    }
+    if (
+      !Object.values(SportCategoryEnum).includes(
+        sportCategory as SportCategoryEnum
+      )
+    ) {
+      throw AppError.badRequest("Invalid sport category");
+    }
+
+    const user = await User.findById(userId).select("sportRatings");
+    if (!user) {
+      throw AppError.notFound("User not found");
+    }
+
+    const history = await RatingHistory.find({ userId, sportCategory })
+      .sort({ createdAt: -1 })
+      .limit(
+        Math.min(
+          Math.max(Number(limit) || DEFAULT_HISTORY_LIMIT, 1),
+          MAX_HISTORY_LIMIT
+        )
+      );
+
+    const sportRating = user.sportRatings?.[sportCategory as SportCategoryEnum];
+
+    return {
+      sportCategory,
+      rating: sportRating?.rating ?? INITIAL_ELO_RATING,
+      matchesCount: sportRating?.matchesCount ?? 0,
+      history,
+    };
+  }
+}
+
+export const eloService = new EloService();
@@ -0,0 +1,137 @@
+import mongoose from "mongoose";
+import User from "../models/User";
+import { AppError } from "../middleware/errorMiddleware";
+import { AccountStatusEnum } from "../types/enums";
+import { generateOpaqueToken, hashToken } from "../utils/tokens";
+import { mailService } from "./mailService";
+
+const HOUR_MS = 60 * 60 * 1000;
+const EMAIL_VERIFICATION_TTL_HOURS = 24;
+// מגבלת שליחה חוזרת - המתנה בין שליחות ומכסה לחלון זמן
+const RESEND_COOLDOWN_MS = 60 * 1000;
+const MAX_SENDS_PER_WINDOW = 5;
+const SEND_WINDOW_MS = 24 * HOUR_MS;
+
+class EmailVerificationService {
+  /**
+   * Send a new verification link to a user. The token is opaque and only its
+   * hash is stored, every send replaces the previous token, and sends are
+   * rate limited per user
+   * @param userId User ID
+   */
+  async sendVerification(userId: string) {
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      throw AppError.badRequest("Invalid user ID");
+    }
+
+    const user = await User.findById(userId).select("+emailVerification");
+    if (!user) {
+      throw AppError.notFound("User not found");
+    }
+    if (user.isEmailVerified) {
+      throw AppError.badRequest("Email is already verified");
+    }
+
+    const now = new Date();
+    const {
+      lastSentAt,
+      windowStartedAt,
+      sentCount = 0,
+    } = user.emailVerification || {};
+
+    if (
+      lastSentAt &&
+      now.getTime() - lastSentAt.getTime() < RESEND_COOLDOWN_MS
+    ) {
+      throw AppError.tooManyRequests(
+        "Please wait a minute before requesting another verification email"
+      );
+    }
+
+    // חלון חדש נפתח כשהקודם הסתיים
+    const windowExpired =
+      !windowStartedAt ||
+      now.getTime() - windowStartedAt.getTime() >= SEND_WINDOW_MS;
+    if (!windowExpired && sentCount >= MAX_SENDS_PER_WINDOW) {
+      throw AppError.tooManyRequests(
+        "Too many verification emails requested, please try again later"
+      );
+    }
+
+    const token = generateOpaqueToken();
+
+    // עדכון מותנה - בקשות מקבילות לא יעקפו את מגבלת השליחה
+    const updated = await User.findOneAndUpdate(
+      {
+        _id: userId,
+        "emailVerification.lastSentAt": lastSentAt ?? { $exists: false },
+      },
+      {
+        emailVerification: {
+          tokenHash: hashToken(token),
+          expiresAt: new Date(
+            now.getTime() + EMAIL_VERIFICATION_TTL_HOURS * HOUR_MS
+          ),
+          lastSentAt: now,
+          windowStartedAt: windowExpired ? now : windowStartedAt,
+          sentCount: windowExpired ? 1 : sentCount + 1,
+        },
+      }
+    );
+    if (!updated) {
+      throw AppError.tooManyRequests(
+        "Please wait a minute before requesting another verification email"
+      );
+    }
+
+    await mailService.sendVerificationEmail(
+      user.email,
+      user.firstName,
+      token,
+      EMAIL_VERIFICATION_TTL_HOURS
+    );
+  }
+
+  /**
+   * Verify the email address of a user with a token from the verification
+   * mail. A token can be used once, and only the latest token is valid
+   * @param token Verification token
+   * @returns The verified user
+   */
+  async verifyEmail(token: string) {
+    // ניצול אטומי של הטוקן - הסרת ה-hash מונעת שימוש חוזר
+    const user = await User.findOneAndUpdate(
+      {
+        "emailVerification.tokenHash": hashToken(token),
+        "emailVerification.expiresAt": { $gt: new Date() },
+      },
+      {
+        $set: { isEmailVerified: true },
+        $unset: {
+          "emailVerification.tokenHash": 1,
+          "emailVerification.expiresAt": 1,
+        },
+      },
+      { new: true }
+    );
+    if (!user) {
+      throw AppError.badRequest("Invalid or expired verification token");
+    }
+
+    // חשבון שהמתין לאימות הופך לפעיל - סטטוסים אחרים (חסימה, השעיה) נשמרים
+    if (user.accountStatus === AccountStatusEnum.PENDING_VERIFICATION) {
+      await User.updateOne(
+        {
+          _id: user._id,
+          accountStatus: AccountStatusEnum.PENDING_VERIFICATION,
+        },
+        { accountStatus: AccountStatusEnum.ACTIVE }
+      );
+      return await User.findById(user._id);
+    }
+
+    return user;
+  }
+}
+
+export const emailVerificationService = new EmailVerificationService();
@@ -0,0 +1,428 @@
+import mongoose from "mongoose";
+import Event from "../models/Event";
+import EventSeries from "../models/EventSeries";
+import Club from "../models/Club";
+import { AppError } from "../middleware/errorMiddleware";
+import { EventStatusEnum, RecurrenceFrequencyEnum } from "../types/enums";
+import { getClubRoles } from "../utils/clubRoles";
+import {
+  generateOccurrences,
+  normalizeRecurrence,
+  RecurrenceRule,
+} from "../utils/recurrence";
+import { toGeoPoint } from "../utils/geo";
+import { eventService } from "./eventService";
+import { fieldService } from "./fieldService";
+import {
+  CreateSeriesDto,
+  RecurrenceDto,
+  UpdateEventDto,
+} from "../validation/eventSchemas";
+
+export type SeriesScope = "this" | "following";
+
+// שדות התבנית שמועתקים לכל מופע בסדרה
+const TEMPLATE_FIELDS = [
+  "name",
+  "description",
+  "fieldId",
+  "location",
+  "image",
+  "maxParticipants",
+  "minParticipantsToStart",
+  "cancelCutoffMinutes",
+  "cost",
+] as const;
+
+type TemplateField = (typeof TEMPLATE_FIELDS)[number];
+
+// שדות קיבולת שאינם ניתנים לעדכון מרוכז של מופעים
+const CAPACITY_FIELDS = ["maxParticipants", "minParticipantsToStart"] as const;
+
+class EventSeriesService {
+  /**
+   * Create a recurring event series and all of its occurrences
+   * (club admin or captain only)
+   * @param seriesData Event template, recurrence rule and time window of
+   * the first occurrence
+   * @param userId ID of the user creating the series
+   * @returns Created series and its events
+   */
+  async createSeries(seriesData: CreateSeriesDto, userId: string) {
+    if (!mongoose.Types.ObjectId.isValid(seriesData.clubId)) {
+      throw AppError.badRequest("Invalid club ID");
+    }
+
+    const club = await Club.findById(seriesData.clubId);
+    if (!club) {
+      throw AppError.notFound("Club not found");
+    }
+
+    const { isAdmin, isCaptain } = getClubRoles(club, userId);
+    if (!isAdmin && !isCaptain) {
+      throw AppError.forbidden(
+        "Only the club admin or captains can create events"
+      );
+    }
+
+    // חלון הזמנים של המופע הראשון קובע את השעה והמשך של כל הסדרה
+    const firstStart = new Date(seriesData.time.start);
+    const firstEnd = new Date(seriesData.time.end);
+    if (isNaN(firstStart.getTime()) || isNaN(firstEnd.getTime())) {
+      throw AppError.badRequest("Please provide a valid start and end time");
+    }
+    if (firstEnd <= firstStart) {
+      throw AppError.badRequest("Event end time must be after its start time");
+    }
+    if (firstStart <= new Date()) {
+      throw AppError.badRequest("Event start time must be in the future");
+    }
+
+    const rule = this.validateRecurrence(seriesData.recurrence, firstStart);
+    const occurrences = generateOccurrences(rule, firstStart);
+    if (occurrences.length === 0) {
+      throw AppError.badRequest("The recurrence rule produces no events");
+    }
+
+    const durationMs = firstEnd.getTime() - firstStart.getTime();
+    const template = this.pickTemplate(seriesData);
+
+    // כל המופעים נבדקים ונשמרים תחת נעילה אחת של המגרש
+    return await fieldService.withFieldLock(template.fieldId, async () => {
+      await fieldService.assertFieldAvailableForWindows(
+        template.fieldId,
+        occurrences.map((start) => ({
+          start,
+          end: new Date(start.getTime() + durationMs),
+        })),
+        club.sportCategory
+      );
+
+      const series = await EventSeries.create({
+        clubId: club._id,
+        createdBy: userId,
+        sportCategory: club.sportCategory,
+        template,
+        recurrence: {
+          ...rule,
+          ...normalizeRecurrence(rule, firstStart),
+        },
+        firstStart,
+        durationMinutes: Math.round(durationMs / 60000),
+      });
+
+      const events = await Event.insertMany(
+        occurrences.map((start) => ({
+          ...template,
+          clubId: club._id,
+          sportCategory: club.sportCategory,
+          time: {
+            start,
+            end: new Date(start.getTime() + durationMs),
+          },
+          seriesId: series._id,
+        }))
+      );
+
+      return { series, events };
+    });
+  }
+
+  /**
+   * Get a series and its occurrences (club members only)
+   * @param seriesId Series ID
+   * @param userId ID of the user requesting the series
+   * @returns Series and its events, or null if not found or not a member
+   */
+  async getSeries(seriesId: string, userId: string) {
+    if (!mongoose.Types.ObjectId.isValid(seriesId)) {
+      throw AppError.badRequest("Invalid series ID");
+    }
+
+    const series = await EventSeries.findById(seriesId);
+    if (!series) {
+      return null;
+    }
+
+    const club = await Club.findById(series.clubId);
+    if (!club || !getClubRoles(club, userId).isMember) {
+      return null;
+    }
+
+    const events = await Event.find({ seriesId }).sort({ "time.start": 1 });
+    return { series, events };
+  }
+
+  /**
+   * Update a single occurrence, or it and all the following upcoming
+   * occurrences of its series (club admin or captain only). Capacity
+   * fields can only be changed for a single occurrence
+   * @param eventId ID of the occurrence
+   * @param scope "this" or "following"
+   * @param updateData Data to update
+   * @param userId ID of the user making the update
+   * @returns Updated events or null if not found or not authorized
+   */
+  async updateOccurrences(
+    eventId: string,
+    scope: SeriesScope,
+    updateData: UpdateEventDto,
+    userId: string
+  ) {
+    const { event } = await this.getManagedOccurrence(eventId, userId);
+
+    if (scope === "this") {
+      const updated = await eventService.updateEvent(
+        eventId,
+        { ...updateData },
+        userId
+      );
+      return updated ? [updated] : null;
+    }
+
+    // עדכון מרוכז עוקף את הוולידציה ואת קידום הממתינים של כל מופע -
+    // שינוי קיבולת נעשה לכל מופע בנפרד
+    const capacityField = CAPACITY_FIELDS.find(
+      (field) => updateData[field] !== undefined
+    );
+    if (capacityField) {
+      throw AppError.badRequest(
+        `${capacityField} cannot be changed for all following events, update each event separately`
+      );
+    }
+
+    const following = await Event.find({
+      seriesId: event.seriesId,
+      status: EventStatusEnum.UPCOMING,
+      "time.start": { $gte: event.time.start },
+    });
+
+    if (following.length === 0) {
+      throw AppError.badRequest("There are no upcoming events to update");
+    }
+
+    const template = this.pickTemplate(updateData);
+    // bulkWrite לא מפעיל את המידלוור של המודל - חישוב הנקודה ידנית
+    const changes = template.location
+      ? {
+          ...template,
+          location: {
+            ...template.location,
+            point: toGeoPoint(template.location.lat, template.location.lng),
+          },
+        }
+      : template;
+
+    // שינוי שעה מוזז באותו הפרש לכל המופעים הבאים
+    let shiftMs = 0;
+    let durationMs: number | null = null;
+    if (updateData.time) {
+      const newStart = new Date(updateData.time.start ?? event.time.start);
+      const newEnd = new Date(updateData.time.end ?? event.time.end);
+      if (isNaN(newStart.getTime()) || isNaN(newEnd.getTime())) {
+        throw AppError.badRequest("Please provide a valid start and end time");
+      }
+      if (newEnd <= newStart) {
+        throw AppError.badRequest(
+          "Event end time must be after its start time"
+        );
+      }
+      shiftMs = newStart.getTime() - event.time.start.getTime();
+      durationMs = newEnd.getTime() - newStart.getTime();
+    }
+
+    const updates = following.map((occurrence) => {
+      const start = new Date(occurrence.time.start.getTime() + shiftMs);
+      const end =
+        durationMs === null
+          ? new Date(occurrence.time.end.getTime() + shiftMs)
+          : new Date(start.getTime() + durationMs);
+      return { occurrence, start, end };
+    });
+
+    const applyUpdates = () =>
+      Event.bulkWrite(
+        updates.map(({ occurrence, start, end }) => ({
+          updateOne: {
+            filter: { _id: occurrence._id },
+            update: { $set: { ...changes, time: { start, end } } },
+          },
+        }))
+      );
+
+    // שינוי מגרש או שעה מחייב בדיקה שהמגרש פנוי לכל המופעים
+    if (changes.fieldId || updateData.time) {
+      const fieldId = (changes.fieldId ?? event.fieldId).toString();
+      await fieldService.withFieldLock(fieldId, async () => {
+        const ownIds = following.map(
+          (occurrence) => occurrence._id as mongoose.Types.ObjectId
+        );
+        await fieldService.assertFieldAvailableForWindows(
+          fieldId,
+          updates.map(({ start, end }) => ({ start, end })),
+          event.sportCategory,
+          ownIds
+        );
+        await applyUpdates();
+      });
+    } else {
+      await applyUpdates();
+    }
+
+    // עדכון התבנית של הסדרה כך שתשקף את המופעים הבאים
+    await EventSeries.findByIdAndUpdate(event.seriesId, {
+      $set: Object.fromEntries(
+        Object.entries(changes).map(([key, value]) => [
+          `template.${key}`,
+          value,
+        ])
+      ),
+      ...(durationMs !== null && {
+        durationMinutes: Math.round(durationMs / 60000),
+      }),
+    });
+
+    return await Event.find({
+      _id: { $in: following.map((occurrence) => occurrence._id) },
+    }).sort({ "time.start": 1 });
+  }
+
+  /**
+   * Cancel a single occurrence, or it and all the following upcoming
+   * occurrences of its series (club admin or captain only)
+   * @param eventId ID of the occurrence
+   * @param scope "this" or "following"
+   * @param userId ID of the user cancelling
+   * @param reason Optional cancellation reason
+   * @returns Number of cancelled events
+   */
+  async cancelOccurrences(
+    eventId: string,
+    scope: SeriesScope,
+    userId: string,
+    reason?: string
+  ) {
+    const { event } = await this.getManagedOccurrence(eventId, userId);
+
+    if (scope === "this") {
+      const cancelled = await eventService.transitionStatus(
+        eventId,
+        event.status,
+        EventStatusEnum.CANCELLED,
+        reason
+      );
+      return cancelled ? 1 : 0;
+    }
+
+    const result = await Event.updateMany(
+      {
+        seriesId: event.seriesId,
+        status: EventStatusEnum.UPCOMING,
+        "time.start": { $gte: event.time.start },
+      },
+      {
+        status: EventStatusEnum.CANCELLED,
+        cancellationReason: reason || "Cancelled by the organizer",
+      }
+    );
+
+    // הסדרה מסתיימת לפני המופע שבוטל
+    await EventSeries.findByIdAndUpdate(event.seriesId, {
+      "recurrence.until": new Date(event.time.start.getTime() - 1),
+    });
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Load a series occurrence that the user manages
+   * @param eventId ID of the occurrence
+   * @param userId ID of the user
+   * @returns The event
+   */
+  private async getManagedOccurrence(eventId: string, userId: string) {
+    if (!mongoose.Types.ObjectId.isValid(eventId)) {
+      throw AppError.badRequest("Invalid event ID");
+    }
+
+    const event = await Event.findById(eventId);
+    if (!event) {
+      throw AppError.notFound("Event not found");
+    }
+
+    if (!event.seriesId) {
+      throw AppError.badRequest("This event is not part of a series");
+    }
+
+    const club = await Club.findById(event.clubId);
+    if (!club) {
+      throw AppError.notFound("Club not found");
+    }
+
+    const { isAdmin, isCaptain } = getClubRoles(club, userId);
+    if (!isAdmin && !isCaptain) {
+      throw AppError.forbidden(
+        "Only the club admin or captains can manage event series"
+      );
+    }
+
+    return { event, club };
+  }
+
+  /**
+   * Validate a recurrence rule provided by the user - the request schema
+   * already checked the types and ranges of its fields
+   * @param recurrence Recurrence rule
+   * @param firstStart Start time of the first occurrence
+   * @returns Validated rule
+   */
+  private validateRecurrence(recurrence: RecurrenceDto, firstStart: Date) {
+    if (!recurrence.until && !recurrence.count) {
+      throw AppError.badRequest(
+        "Please provide an end date (until) or a number of occurrences (count)"
+      );
+    }
+
+    const rule: RecurrenceRule = {
+      frequency: recurrence.frequency,
+      weekdays: recurrence.weekdays,
+      interval: recurrence.interval,
+      until: recurrence.until ? new Date(recurrence.until) : undefined,
+      count: recurrence.count,
+    };
+
+    if (rule.until && rule.until < firstStart) {
+      throw AppError.badRequest(
+        "Recurrence end date must be after the first event"
+      );
+    }
+
+    if (
+      rule.frequency === RecurrenceFrequencyEnum.CUSTOM &&
+      !rule.weekdays?.length
+    ) {
+      throw AppError.badRequest(
+        "Custom recurrence requires weekdays between 0 (Sunday) and 6"
+      );
+    }
+
+    return rule;
+  }
+
+  /**
+   * Pick the template fields out of the request data
+   * @param data Request data
+   * @returns Only the fields that are copied to every occurrence
+   */
+  private pickTemplate<
+    T extends Partial<Pick<CreateSeriesDto, TemplateField>>
+  >(data: T) {
+    return Object.fromEntries(
+      TEMPLATE_FIELDS.filter((field) => data[field] !== undefined).map(
+        (field) => [field, data[field]]
+      )
+    ) as Pick<T, TemplateField>;
+  }
+}
+
+export const eventSeriesService = new EventSeriesService();
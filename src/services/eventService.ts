@@ -0,0 +1,589 @@
+import mongoose from "mongoose";
+import Event from "../models/Event";
+import Club from "../models/Club";
+import { AppError } from "../middleware/errorMiddleware";
+import { EventStatusEnum } from "../types/enums";
+import { getClubRoles } from "../utils/clubRoles";
+import { fieldService } from "./fieldService";
+import { matchService } from "./matchService";
+import { CreateEventDto, UpdateEventDto } from "../validation/eventSchemas";
+import { runInTransaction } from "../utils/transaction";
+
+// מעברי סטטוס מותרים לאירוע
+const EVENT_STATUS_TRANSITIONS: Record<EventStatusEnum, EventStatusEnum[]> = {
+  [EventStatusEnum.UPCOMING]: [
+    EventStatusEnum.ONGOING,
+    EventStatusEnum.CANCELLED,
+  ],
+  [EventStatusEnum.ONGOING]: [
+    EventStatusEnum.COMPLETED,
+    EventStatusEnum.CANCELLED,
+  ],
+  [EventStatusEnum.COMPLETED]: [],
+  [EventStatusEnum.CANCELLED]: [],
+};
+
+class EventService {
+  /**
+   * Get event by ID (club members only)
+   * @param eventId Event ID
+   * @param userId ID of the user requesting the event
+   * @returns Event or null if not found or not a member of the club
+   */
+  async getEventById(eventId: string, userId: string) {
+    if (!mongoose.Types.ObjectId.isValid(eventId)) {
+      throw AppError.badRequest("Invalid event ID");
+    }
+
+    const event = await Event.findById(eventId);
+    if (!event) {
+      return null;
+    }
+
+    // בדיקה שהמשתמש חבר בקבוצה של האירוע
+    const club = await Club.findById(event.clubId);
+    if (!club || !getClubRoles(club, userId).isMember) {
+      return null;
+    }
+
+    return await event.populate("clubId", "name image sportCategory");
+  }
+
+  /**
+   * Get all events of a club (club members only)
+   * @param clubId Club ID
+   * @param userId ID of the user requesting the events
+   * @returns Array of the club's events sorted by start time
+   */
+  async getEventsByClub(clubId: string, userId: string) {
+    if (!mongoose.Types.ObjectId.isValid(clubId)) {
+      throw AppError.badRequest("Invalid club ID");
+    }
+
+    const club = await Club.findById(clubId);
+    if (!club) {
+      throw AppError.notFound("Club not found");
+    }
+
+    if (!getClubRoles(club, userId).isMember) {
+      throw AppError.forbidden(
+        "You must be a member of this club to view its events"
+      );
+    }
+
+    return await Event.find({ clubId }).sort({ "time.start": 1 });
+  }
+
+  /**
+   * Get upcoming events of all the clubs the user is a member of
+   * @param userId ID of the user
+   * @param clubId Optional club ID to narrow the results
+   * @returns Array of upcoming events sorted by start time
+   */
+  async getUpcomingEvents(userId: string, clubId?: string) {
+    if (clubId && !mongoose.Types.ObjectId.isValid(clubId)) {
+      throw AppError.badRequest("Invalid club ID");
+    }
+
+    // שליפת הקבוצות שהמשתמש חבר בהן
+    const clubs = await Club.find({
+      "members.userId": new mongoose.Types.ObjectId(userId),
+      ...(clubId && { _id: clubId }),
+    }).select("_id");
+
+    return await Event.find({
+      clubId: { $in: clubs.map((club) => club._id) },
+      status: EventStatusEnum.UPCOMING,
+      "time.start": { $gte: new Date() },
+    })
+      .sort({ "time.start": 1 })
+      .populate("clubId", "name image sportCategory");
+  }
+
+  /**
+   * Create a new event (club admin or captain only)
+   * @param eventData Event data
+   * @param userId ID of the user creating the event
+   * @returns Created event
+   */
+  async createEvent(eventData: CreateEventDto, userId: string) {
+    if (!mongoose.Types.ObjectId.isValid(eventData.clubId)) {
+      throw AppError.badRequest("Invalid club ID");
+    }
+
+    const club = await Club.findById(eventData.clubId);
+    if (!club) {
+      throw AppError.notFound("Club not found");
+    }
+
+    // בדיקה שהמשתמש הוא מנהל או קפטן
+    const { isAdmin, isCaptain } = getClubRoles(club, userId);
+    if (!isAdmin && !isCaptain) {
+      throw AppError.forbidden(
+        "Only the club admin or captains can create events"
+      );
+    }
+
+    this.validateTimeWindow(eventData.time.start, eventData.time.end);
+    if (new Date(eventData.time.start) <= new Date()) {
+      throw AppError.badRequest("Event start time must be in the future");
+    }
+
+    // שריון המגרש לחלון הזמנים של האירוע
+    return await fieldService.withFieldLock(eventData.fieldId, async () => {
+      await fieldService.assertFieldAvailable(
+        eventData.fieldId,
+        new Date(eventData.time.start),
+        new Date(eventData.time.end),
+        club.sportCategory
+      );
+
+      return await Event.create({
+        ...eventData,
+        clubId: club._id,
+        // ענף הספורט של האירוע נקבע לפי הקבוצה
+        sportCategory: club.sportCategory,
+      });
+    });
+  }
+
+  /**
+   * Update event data (club admin or captain only)
+   * @param eventId Event ID
+   * @param updateData Data to update
+   * @param userId ID of the user making the update
+   * @returns Updated event or null if not found or not authorized
+   */
+  async updateEvent(
+    eventId: string,
+    updateData: UpdateEventDto,
+    userId: string
+  ) {
+    if (!mongoose.Types.ObjectId.isValid(eventId)) {
+      throw AppError.badRequest("Invalid event ID");
+    }
+
+    const event = await Event.findById(eventId);
+    if (!event) {
+      return null;
+    }
+
+    // בדיקה שהמשתמש הוא מנהל או קפטן בקבוצה של האירוע
+    const club = await Club.findById(event.clubId);
+    if (!club) {
+      return null;
+    }
+    const { isAdmin, isCaptain } = getClubRoles(club, userId);
+    if (!isAdmin && !isCaptain) {
+      return null; // אין הרשאה לעדכן
+    }
+
+    // הקבוצה, הסטטוס, הקבוצות והרשומים אינם חלק מהסכמה ומשתנים
+    // רק דרך הניתובים הייעודיים
+    const changes = {
+      ...updateData,
+      // מופע של סדרה שנערך בנפרד מסומן כחריג בסדרה
+      isSeriesException: !!event.seriesId,
+      // בדיקת חלון הזמנים לאחר העדכון
+      ...(updateData.time && {
+        time: {
+          start: updateData.time.start ?? event.time.start,
+          end: updateData.time.end ?? event.time.end,
+        },
+      }),
+    };
+    if (changes.time) {
+      this.validateTimeWindow(changes.time.start, changes.time.end);
+    }
+
+    const applyUpdate = () =>
+      Event.findByIdAndUpdate(eventId, changes, {
+        new: true,
+        runValidators: true,
+      });
+
+    // שינוי מגרש או שעה מחייב בדיקה שהמגרש פנוי בחלון החדש
+    const fieldId = (updateData.fieldId ?? event.fieldId).toString();
+    const updatedEvent =
+      updateData.fieldId || updateData.time
+        ? await fieldService.withFieldLock(fieldId, async () => {
+            await fieldService.assertFieldAvailable(
+              fieldId,
+              new Date(updateData.time?.start ?? event.time.start),
+              new Date(updateData.time?.end ?? event.time.end),
+              event.sportCategory,
+              [event._id as mongoose.Types.ObjectId]
+            );
+            return await applyUpdate();
+          })
+        : await applyUpdate();
+
+    // הגדלת מספר המשתתפים מפנה מקומות לממתינים
+    if (updatedEvent && updateData.maxParticipants !== undefined) {
+      await this.promoteFromWaitlist(eventId);
+      return await Event.findById(eventId);
+    }
+
+    return updatedEvent;
+  }
+
+  /**
+   * Delete an event and its matches (club admin or captain only)
+   * @param eventId Event ID
+   * @param userId ID of the user making the deletion
+   * @returns true if deleted, false if not found or not authorized
+   */
+  async deleteEvent(eventId: string, userId: string) {
+    if (!mongoose.Types.ObjectId.isValid(eventId)) {
+      throw AppError.badRequest("Invalid event ID");
+    }
+
+    const event = await Event.findById(eventId);
+    if (!event) {
+      return false;
+    }
+
+    const club = await Club.findById(event.clubId);
+    if (!club) {
+      return false;
+    }
+    const { isAdmin, isCaptain } = getClubRoles(club, userId);
+    if (!isAdmin && !isCaptain) {
+      return false;
+    }
+
+    // מחיקת משחקי האירוע וביטול התרומה שלהם לסטטיסטיקות
+    await runInTransaction(async (session) => {
+      await matchService.deleteEventMatches(eventId, session);
+      await Event.findByIdAndDelete(eventId, { session });
+    });
+    return true;
+  }
+
+  /**
+   * Change the status of an event (club admin or captain only)
+   * @param eventId Event ID
+   * @param newStatus Requested status
+   * @param userId ID of the user changing the status
+   * @param reason Optional cancellation reason
+   * @returns Updated event or null if not found or not authorized
+   */
+  async changeEventStatus(
+    eventId: string,
+    newStatus: EventStatusEnum,
+    userId: string,
+    reason?: string
+  ) {
+    if (!mongoose.Types.ObjectId.isValid(eventId)) {
+      throw AppError.badRequest("Invalid event ID");
+    }
+
+    if (!Object.values(EventStatusEnum).includes(newStatus)) {
+      throw AppError.badRequest("Invalid event status");
+    }
+
+    const event = await Event.findById(eventId);
+    if (!event) {
+      return null;
+    }
+
+    const club = await Club.findById(event.clubId);
+    if (!club) {
+      return null;
+    }
+    const { isAdmin, isCaptain } = getClubRoles(club, userId);
+    if (!isAdmin && !isCaptain) {
+      return null;
+    }
+
+    const updated = await this.transitionStatus(
+      eventId,
+      event.status,
+      newStatus,
+      reason
+    );
+    if (!updated) {
+      // הסטטוס השתנה במקביל (למשל על ידי המתזמן)
+      throw AppError.badRequest(
+        "Event status has changed in the meantime, please try again"
+      );
+    }
+
+    return updated;
+  }
+
+  /**
+   * Move an event from one status to another if the transition is allowed.
+   * The update only applies while the event still holds the expected status.
+   * @param eventId Event ID
+   * @param from Expected current status
+   * @param to New status
+   * @param reason Optional cancellation reason
+   * @returns Updated event or null if the status changed in the meantime
+   */
+  async transitionStatus(
+    eventId: string,
+    from: EventStatusEnum,
+    to: EventStatusEnum,
+    reason?: string
+  ) {
+    if (!EVENT_STATUS_TRANSITIONS[from].includes(to)) {
+      throw AppError.badRequest(
+        `Cannot change event status from ${from} to ${to}`
+      );
+    }
+
+    return await Event.findOneAndUpdate(
+      { _id: eventId, status: from },
+      {
+        status: to,
+        ...(to === EventStatusEnum.CANCELLED && {
+          cancellationReason: reason || "Cancelled by the organizer",
+        }),
+      },
+      { new: true, runValidators: true }
+    );
+  }
+
+  /**
+   * Cancel upcoming events that did not reach their minimum number of
+   * participants by their cancel cutoff
+   * @param now Current time
+   * @returns Number of cancelled events
+   */
+  async cancelUnderfilledEvents(now = new Date()) {
+    const result = await Event.updateMany(
+      {
+        status: EventStatusEnum.UPCOMING,
+        $expr: {
+          $and: [
+            {
+              $lte: [
+                {
+                  $subtract: [
+                    "$time.start",
+                    {
+                      $multiply: [
+                        { $ifNull: ["$cancelCutoffMinutes", 0] },
+                        60 * 1000,
+                      ],
+                    },
+                  ],
+                },
+                now,
+              ],
+            },
+            {
+              $lt: [
+                { $size: { $ifNull: ["$participants", []] } },
+                "$minParticipantsToStart",
+              ],
+            },
+          ],
+        },
+      },
+      {
+        status: EventStatusEnum.CANCELLED,
+        cancellationReason: "Not enough participants registered",
+      }
+    );
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Start upcoming events whose start time has passed
+   * @param now Current time
+   * @returns Number of started events
+   */
+  async startDueEvents(now = new Date()) {
+    const result = await Event.updateMany(
+      { status: EventStatusEnum.UPCOMING, "time.start": { $lte: now } },
+      { status: EventStatusEnum.ONGOING }
+    );
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Complete ongoing events whose end time has passed
+   * @param now Current time
+   * @returns Number of completed events
+   */
+  async completeFinishedEvents(now = new Date()) {
+    const result = await Event.updateMany(
+      { status: EventStatusEnum.ONGOING, "time.end": { $lte: now } },
+      { status: EventStatusEnum.COMPLETED }
+    );
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Register a user to an event, or add them to the waitlist when it is full
+   * @param eventId Event ID
+   * @param userId ID of the user registering
+   * @returns Registration status and the user's position in the waitlist
+   */
+  async registerToEvent(eventId: string, userId: string) {
+    if (!mongoose.Types.ObjectId.isValid(eventId)) {
+      throw AppError.badRequest("Invalid event ID");
+    }
+
+    const event = await Event.findById(eventId);
+    if (!event) {
+      throw AppError.notFound("Event not found");
+    }
+
+    if (event.status !== EventStatusEnum.UPCOMING) {
+      throw AppError.badRequest(
+        "Registration is open only for upcoming events"
+      );
+    }
+
+    // רק חברי הקבוצה של האירוע יכולים להירשם
+    const club = await Club.findById(event.clubId);
+    if (!club || !getClubRoles(club, userId).isMember) {
+      throw AppError.forbidden(
+        "Only members of the event's club can register to it"
+      );
+    }
+
+    const userObjectId = new mongoose.Types.ObjectId(userId);
+    const notRegistered = {
+      _id: event._id,
+      status: EventStatusEnum.UPCOMING,
+      participants: { $ne: userObjectId },
+      waitlist: { $ne: userObjectId },
+    };
+
+    // ניסיון הרשמה אטומי - מצליח רק אם נשאר מקום פנוי
+    const registered = await Event.findOneAndUpdate(
+      {
+        ...notRegistered,
+        $expr: { $lt: [{ $size: "$participants" }, "$maxParticipants"] },
+      },
+      { $push: { participants: userObjectId } },
+      { new: true }
+    );
+    if (registered) {
+      return { status: "registered" as const };
+    }
+
+    // האירוע מלא - הוספה לסוף רשימת ההמתנה
+    const waitlisted = await Event.findOneAndUpdate(
+      notRegistered,
+      { $push: { waitlist: userObjectId } },
+      { new: true }
+    );
+    if (!waitlisted) {
+      throw AppError.badRequest(
+        "You are already registered or on the waitlist for this event"
+      );
+    }
+
+    return {
+      status: "waitlisted" as const,
+      position:
+        waitlisted.waitlist.findIndex((id) => id.equals(userObjectId)) + 1,
+    };
+  }
+
+  /**
+   * Withdraw a user from an event and promote the next user on the waitlist
+   * @param eventId Event ID
+   * @param userId ID of the user withdrawing
+   * @returns true if withdrawn, false if not registered or waitlisted
+   */
+  async withdrawFromEvent(eventId: string, userId: string) {
+    if (!mongoose.Types.ObjectId.isValid(eventId)) {
+      throw AppError.badRequest("Invalid event ID");
+    }
+
+    const event = await Event.findById(eventId);
+    if (!event) {
+      throw AppError.notFound("Event not found");
+    }
+
+    if (event.status !== EventStatusEnum.UPCOMING) {
+      throw AppError.badRequest("You can only withdraw from upcoming events");
+    }
+
+    const userObjectId = new mongoose.Types.ObjectId(userId);
+
+    // הסרה מרשימת ההמתנה
+    const fromWaitlist = await Event.findOneAndUpdate(
+      { _id: event._id, waitlist: userObjectId },
+      { $pull: { waitlist: userObjectId } }
+    );
+    if (fromWaitlist) {
+      return true;
+    }
+
+    // הסרה מהרשומים ומהקבוצות, וקידום הבא בתור
+    const teamsPull = Object.fromEntries(
+      [...event.teams.keys()].map((team) => [`teams.${team}`, userObjectId])
+    );
+    const fromParticipants = await Event.findOneAndUpdate(
+      { _id: event._id, participants: userObjectId },
+      { $pull: { participants: userObjectId, ...teamsPull } }
+    );
+    if (!fromParticipants) {
+      return false;
+    }
+
+    await this.promoteFromWaitlist(eventId);
+    return true;
+  }
+
+  /**
+   * Move users from the head of the waitlist into the free spots of an event
+   * @param eventId Event ID
+   */
+  private async promoteFromWaitlist(eventId: string) {
+    // כל קידום מותנה בכך שהמשתמש עדיין ראשון בתור ושיש מקום פנוי
+    while (true) {
+      const event = await Event.findById(eventId);
+      if (
+        !event ||
+        event.waitlist.length === 0 ||
+        event.participants.length >= event.maxParticipants
+      ) {
+        return;
+      }
+
+      const nextUserId = event.waitlist[0];
+      await Event.findOneAndUpdate(
+        {
+          _id: event._id,
+          "waitlist.0": nextUserId,
+          $expr: { $lt: [{ $size: "$participants" }, "$maxParticipants"] },
+        },
+        {
+          $pull: { waitlist: nextUserId },
+          $push: { participants: nextUserId },
+        }
+      );
+    }
+  }
+
+  /**
+   * Validate that an event time window is well formed
+   * @param start Start time
+   * @param end End time
+   */
+  private validateTimeWindow(start: any, end: any) {
+    const startDate = new Date(start);
+    const endDate = new Date(end);
+
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      throw AppError.badRequest("Please provide a valid start and end time");
+    }
+
+    if (endDate <= startDate) {
+      throw AppError.badRequest("Event end time must be after its start time");
+    }
+  }
+}
+
+export const eventService = new EventService();
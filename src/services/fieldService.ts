@@ -0,0 +1,415 @@
+import mongoose from "mongoose";
+import crypto from "crypto";
+import Field, { IField } from "../models/Field";
+import Event from "../models/Event";
+import { AppError } from "../middleware/errorMiddleware";
+import {
+  EventStatusEnum,
+  SportCategoryEnum,
+  UserRoleEnum,
+} from "../types/enums";
+import { CreateFieldDto, UpdateFieldDto } from "../validation/fieldSchemas";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// משך הנעילה המרבי של מגרש בזמן בדיקת הזמנה
+const BOOKING_LOCK_TTL_MS = 10 * 1000;
+const BOOKING_LOCK_RETRY_MS = 100;
+const BOOKING_LOCK_MAX_RETRIES = 30;
+
+// אירועים שמבוטלים לא תופסים את המגרש
+const BOOKED_STATUSES = [
+  EventStatusEnum.UPCOMING,
+  EventStatusEnum.ONGOING,
+  EventStatusEnum.COMPLETED,
+];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// המרת "HH:mm" לדקות מתחילת היום
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+class FieldService {
+  /**
+   * Get all fields, optionally filtered
+   * @param filters sportCategory, city and isIndoor filters
+   * @returns Array of fields sorted by name
+   */
+  async getAllFields(filters: {
+    sportCategory?: string;
+    city?: string;
+    isIndoor?: string;
+  }) {
+    const query: any = {};
+
+    if (filters.sportCategory) {
+      query.sportCategories = filters.sportCategory;
+    }
+    if (filters.city) {
+      query["location.city"] = filters.city;
+    }
+    if (filters.isIndoor !== undefined) {
+      query.isIndoor = filters.isIndoor === "true";
+    }
+
+    return await Field.find(query).sort({ name: 1 });
+  }
+
+  /**
+   * Get field by ID
+   * @param id Field ID
+   * @returns Field or null if not found
+   */
+  async getFieldById(id: string) {
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      throw AppError.badRequest("Invalid field ID");
+    }
+    return await Field.findById(id).populate(
+      "createdBy",
+      "firstName lastName image"
+    );
+  }
+
+  /**
+   * Create a new field
+   * @param fieldData Field data
+   * @param userId ID of the user creating the field
+   * @returns Created field
+   */
+  async createField(fieldData: CreateFieldDto, userId: string) {
+    return await Field.create({
+      ...fieldData,
+      createdBy: userId,
+    });
+  }
+
+  /**
+   * Update field data (creator or super admin only)
+   * @param fieldId Field ID
+   * @param updateData Data to update
+   * @param userId ID of the user making the update
+   * @param userRole Role of the user making the update
+   * @returns Updated field or null if not found or not authorized
+   */
+  async updateField(
+    fieldId: string,
+    updateData: UpdateFieldDto,
+    userId: string,
+    userRole: UserRoleEnum
+  ) {
+    if (!mongoose.Types.ObjectId.isValid(fieldId)) {
+      throw AppError.badRequest("Invalid field ID");
+    }
+
+    const field = await Field.findById(fieldId);
+    if (!field) {
+      return null;
+    }
+
+    // בדיקה שהמשתמש יצר את המגרש או שהוא סופר אדמין
+    if (
+      field.createdBy.toString() !== userId &&
+      userRole !== UserRoleEnum.SUPER_ADMIN
+    ) {
+      return null;
+    }
+
+    return await Field.findByIdAndUpdate(fieldId, updateData, {
+      new: true,
+      runValidators: true,
+    });
+  }
+
+  /**
+   * Delete a field (creator or super admin only)
+   * @param fieldId Field ID
+   * @param userId ID of the user making the deletion
+   * @param userRole Role of the user making the deletion
+   * @returns true if deleted, false if not found or not authorized
+   */
+  async deleteField(fieldId: string, userId: string, userRole: UserRoleEnum) {
+    if (!mongoose.Types.ObjectId.isValid(fieldId)) {
+      throw AppError.badRequest("Invalid field ID");
+    }
+
+    const field = await Field.findById(fieldId);
+    if (!field) {
+      return false;
+    }
+
+    if (
+      field.createdBy.toString() !== userId &&
+      userRole !== UserRoleEnum.SUPER_ADMIN
+    ) {
+      return false;
+    }
+
+    // אין למחוק מגרש שיש בו אירועים עתידיים
+    const activeEvents = await Event.countDocuments({
+      fieldId,
+      status: { $in: [EventStatusEnum.UPCOMING, EventStatusEnum.ONGOING] },
+    });
+    if (activeEvents > 0) {
+      throw AppError.badRequest(
+        `Cannot delete field: it has ${activeEvents} upcoming or ongoing events`
+      );
+    }
+
+    await Field.findByIdAndDelete(fieldId);
+    return true;
+  }
+
+  /**
+   * Get the bookings and free slots of a field on a given day.
+   * Dates and opening hours are in UTC.
+   * @param fieldId Field ID
+   * @param date Day in YYYY-MM-DD format
+   * @returns Opening hours, booked windows and free windows of that day
+   */
+  async getAvailability(fieldId: string, date: string) {
+    if (!mongoose.Types.ObjectId.isValid(fieldId)) {
+      throw AppError.badRequest("Invalid field ID");
+    }
+
+    const dayStart = new Date(`${date}T00:00:00.000Z`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(dayStart.getTime())) {
+      throw AppError.badRequest("Please provide a date in YYYY-MM-DD format");
+    }
+    const dayEnd = new Date(dayStart.getTime() + DAY_MS);
+
+    const field = await Field.findById(fieldId);
+    if (!field) {
+      throw AppError.notFound("Field not found");
+    }
+
+    // שעות הפתיחה של אותו יום - מגרש ללא שעות פתיחה פתוח כל היום
+    const openingHours = field.openingHours.length
+      ? this.getOpeningWindows(field.openingHours, dayStart)
+      : [{ start: dayStart, end: dayEnd }];
+
+    const events = await Event.find({
+      fieldId,
+      status: { $in: BOOKED_STATUSES },
+      "time.start": { $lt: dayEnd },
+      "time.end": { $gt: dayStart },
+    })
+      .select("name clubId time status")
+      .sort({ "time.start": 1 });
+
+    const bookings = events.map((event) => ({
+      eventId: event._id,
+      clubId: event.clubId,
+      name: event.name,
+      start: event.time.start,
+      end: event.time.end,
+    }));
+
+    // חישוב החלונות הפנויים בתוך שעות הפתיחה
+    const freeSlots: { start: Date; end: Date }[] = [];
+    for (const window of openingHours) {
+      let cursor = window.start.getTime();
+      for (const booking of bookings) {
+        const bookingStart = booking.start.getTime();
+        const bookingEnd = booking.end.getTime();
+        if (bookingEnd <= cursor || bookingStart >= window.end.getTime()) {
+          continue;
+        }
+        if (bookingStart > cursor) {
+          freeSlots.push({
+            start: new Date(cursor),
+            end: new Date(bookingStart),
+          });
+        }
+        cursor = Math.max(cursor, bookingEnd);
+      }
+      if (cursor < window.end.getTime()) {
+        freeSlots.push({ start: new Date(cursor), end: window.end });
+      }
+    }
+
+    return { date, openingHours, bookings, freeSlots };
+  }
+
+  /**
+   * Build the opening windows of a day. Hours that close at or before they
+   * open run past midnight - their part after midnight belongs to the next
+   * day, so each window is clipped to the requested day.
+   * @param openingHours Weekly opening hours of the field
+   * @param dayStart Start of the day (UTC)
+   * @returns Opening windows of that day, sorted by start time
+   */
+  private getOpeningWindows(
+    openingHours: IField["openingHours"],
+    dayStart: Date
+  ) {
+    const day = dayStart.getUTCDay();
+    const start = dayStart.getTime();
+    const end = start + DAY_MS;
+
+    return openingHours
+      .flatMap((hours) => {
+        const open = toMinutes(hours.open) * 60000;
+        let close = toMinutes(hours.close) * 60000;
+        if (close <= open) {
+          close += DAY_MS;
+        }
+        // שעות של היום ושעות הלילה של היום הקודם שנמשכות אל תוך היום
+        const dayStarts = [
+          ...(hours.day === day ? [start] : []),
+          ...(hours.day === (day + 6) % 7 ? [start - DAY_MS] : []),
+        ];
+        return dayStarts.map((base) => ({
+          start: Math.max(base + open, start),
+          end: Math.min(base + close, end),
+        }));
+      })
+      .filter((window) => window.start < window.end)
+      .sort((a, b) => a.start - b.start)
+      .map((window) => ({
+        start: new Date(window.start),
+        end: new Date(window.end),
+      }));
+  }
+
+  /**
+   * Make sure a field exists, supports the sport and is free in a time window
+   * @param fieldId Field ID
+   * @param start Start of the window
+   * @param end End of the window
+   * @param sportCategory Sport of the event
+   * @param excludeEventIds Events to ignore (the events being updated)
+   */
+  async assertFieldAvailable(
+    fieldId: string,
+    start: Date,
+    end: Date,
+    sportCategory: SportCategoryEnum,
+    excludeEventIds: mongoose.Types.ObjectId[] = []
+  ) {
+    await this.assertFieldAvailableForWindows(
+      fieldId,
+      [{ start, end }],
+      sportCategory,
+      excludeEventIds
+    );
+  }
+
+  /**
+   * Make sure a field exists, supports the sport and is free in every one of
+   * several time windows (the occurrences of a series) - checked with a
+   * single query so the field lock is held briefly
+   * @param fieldId Field ID
+   * @param windows Time windows to book
+   * @param sportCategory Sport of the events
+   * @param excludeEventIds Events to ignore (the events being updated)
+   */
+  async assertFieldAvailableForWindows(
+    fieldId: string,
+    windows: { start: Date; end: Date }[],
+    sportCategory: SportCategoryEnum,
+    excludeEventIds: mongoose.Types.ObjectId[] = []
+  ) {
+    if (!mongoose.Types.ObjectId.isValid(fieldId)) {
+      throw AppError.badRequest("Invalid field ID");
+    }
+
+    const field = await Field.findById(fieldId);
+    if (!field) {
+      throw AppError.notFound("Field not found");
+    }
+
+    if (!field.sportCategories.includes(sportCategory)) {
+      throw AppError.badRequest(
+        `Field "${field.name}" does not support ${sportCategory}`
+      );
+    }
+    if (!windows.length) {
+      return;
+    }
+
+    const overlapping = await Event.findOne({
+      fieldId,
+      _id: { $nin: excludeEventIds },
+      status: { $in: BOOKED_STATUSES },
+      $or: windows.map(({ start, end }) => ({
+        "time.start": { $lt: end },
+        "time.end": { $gt: start },
+      })),
+    }).sort({ "time.start": 1 });
+
+    if (overlapping) {
+      throw AppError.conflict(
+        `Field "${
+          field.name
+        }" is already booked from ${overlapping.time.start.toISOString()} to ${overlapping.time.end.toISOString()} by event "${
+          overlapping.name
+        }"`
+      );
+    }
+  }
+
+  /**
+   * Run a booking operation while holding a short lock on the field, so
+   * concurrent requests cannot book the same window twice
+   * @param fieldId Field ID
+   * @param operation Operation to run while the field is locked
+   * @returns The operation's result
+   */
+  async withFieldLock<T>(
+    fieldId: string,
+    operation: () => Promise<T>
+  ): Promise<T> {
+    if (!mongoose.Types.ObjectId.isValid(fieldId)) {
+      throw AppError.badRequest("Invalid field ID");
+    }
+
+    const lockId = crypto.randomUUID();
+
+    for (let attempt = 0; ; attempt++) {
+      const now = new Date();
+      const locked = await Field.findOneAndUpdate(
+        {
+          _id: fieldId,
+          $or: [
+            { "bookingLock.expiresAt": { $exists: false } },
+            { "bookingLock.expiresAt": { $lte: now } },
+          ],
+        },
+        {
+          bookingLock: {
+            id: lockId,
+            expiresAt: new Date(now.getTime() + BOOKING_LOCK_TTL_MS),
+          },
+        }
+      );
+      if (locked) {
+        break;
+      }
+
+      if (!(await Field.exists({ _id: fieldId }))) {
+        throw AppError.notFound("Field not found");
+      }
+      if (attempt >= BOOKING_LOCK_MAX_RETRIES) {
+        throw AppError.conflict(
+          "The field is being booked by another request, please try again"
+        );
+      }
+      await sleep(BOOKING_LOCK_RETRY_MS);
+    }
+
+    try {
+      return await operation();
+    } finally {
+      // שחרור הנעילה רק אם היא עדיין שלנו
+      await Field.updateOne(
+        { _id: fieldId, "bookingLock.id": lockId },
+        { $unset: { bookingLock: "" } }
+      );
+    }
+  }
+}
+
+export const fieldService = new FieldService();
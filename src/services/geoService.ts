@@ -0,0 +1,223 @@
+import mongoose from "mongoose";
+import Club from "../models/Club";
+import Event from "../models/Event";
+import Field from "../models/Field";
+import User from "../models/User";
+import { AppError } from "../middleware/errorMiddleware";
+import {
+  ClubStatusEnum,
+  EventStatusEnum,
+  SportCategoryEnum,
+} from "../types/enums";
+import { GeoPoint, toGeoPoint } from "../utils/geo";
+
+const DEFAULT_RADIUS_KM = 10;
+const MAX_RADIUS_KM = 200;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+export interface NearbyQuery {
+  lat?: string;
+  lng?: string;
+  radius?: string;
+  sportCategory?: string;
+  limit?: string;
+}
+
+interface SearchOptions {
+  origin: GeoPoint;
+  radiusKm: number;
+  limit: number;
+  sportCategory?: SportCategoryEnum;
+}
+
+// שלב $geoNear משותף - ממיין לפי מרחק ומסנן לפי רדיוס
+const geoNearStage = (options: SearchOptions, query: any) => ({
+  $geoNear: {
+    near: options.origin,
+    key: "location.point",
+    distanceField: "distance",
+    maxDistance: options.radiusKm * 1000,
+    spherical: true,
+    query,
+  },
+});
+
+// המרת המרחק ממטרים לקילומטרים ועיגול
+const distanceKmStage = {
+  $addFields: {
+    distanceKm: { $round: [{ $divide: ["$distance", 1000] }, 2] },
+  },
+};
+
+class GeoService {
+  /**
+   * Find open public clubs near a location
+   * @param userId ID of the connected user
+   * @param query Search query (lat, lng, radius in km, sportCategory, limit)
+   * @returns Clubs sorted by distance
+   */
+  async findNearbyClubs(userId: string, query: NearbyQuery) {
+    const options = await this.resolveOptions(userId, query);
+
+    return await Club.aggregate([
+      geoNearStage(options, {
+        isPrivet: false,
+        status: ClubStatusEnum.ACTIVE,
+        ...(options.sportCategory && { sportCategory: options.sportCategory }),
+      }),
+      { $limit: options.limit },
+      distanceKmStage,
+      { $addFields: { membersCount: { $size: "$members" } } },
+      { $project: { members: 0, pendingRequests: 0, distance: 0 } },
+    ]);
+  }
+
+  /**
+   * Find upcoming events near a location, of public clubs or clubs the
+   * user is a member of
+   * @param userId ID of the connected user
+   * @param query Search query (lat, lng, radius in km, sportCategory, limit)
+   * @returns Events sorted by distance
+   */
+  async findNearbyEvents(userId: string, query: NearbyQuery) {
+    const options = await this.resolveOptions(userId, query);
+
+    return await Event.aggregate([
+      geoNearStage(options, {
+        status: EventStatusEnum.UPCOMING,
+        "time.start": { $gte: new Date() },
+        ...(options.sportCategory && { sportCategory: options.sportCategory }),
+      }),
+      {
+        $lookup: {
+          from: Club.collection.name,
+          localField: "clubId",
+          foreignField: "_id",
+          as: "club",
+        },
+      },
+      { $unwind: "$club" },
+      // אירועים של קבוצות פרטיות מוצגים רק לחברי הקבוצה
+      {
+        $match: {
+          $or: [
+            { "club.isPrivet": false },
+            { "club.members.userId": new mongoose.Types.ObjectId(userId) },
+          ],
+        },
+      },
+      { $limit: options.limit },
+      distanceKmStage,
+      {
+        $addFields: {
+          participantsCount: { $size: "$participants" },
+          club: {
+            _id: "$club._id",
+            name: "$club.name",
+            image: "$club.image",
+          },
+        },
+      },
+      { $project: { participants: 0, waitlist: 0, teams: 0, distance: 0 } },
+    ]);
+  }
+
+  /**
+   * Find fields near a location
+   * @param userId ID of the connected user
+   * @param query Search query (lat, lng, radius in km, sportCategory, limit)
+   * @returns Fields sorted by distance
+   */
+  async findNearbyFields(userId: string, query: NearbyQuery) {
+    const options = await this.resolveOptions(userId, query);
+
+    return await Field.aggregate([
+      geoNearStage(options, {
+        ...(options.sportCategory && {
+          sportCategories: options.sportCategory,
+        }),
+      }),
+      { $limit: options.limit },
+      distanceKmStage,
+      { $project: { bookingLock: 0, distance: 0 } },
+    ]);
+  }
+
+  /**
+   * Resolve the point to search from, defaulting to the user's stored location
+   * @param userId ID of the connected user
+   * @param lat Latitude from the query
+   * @param lng Longitude from the query
+   * @returns GeoJSON point of the origin
+   */
+  async resolveOrigin(
+    userId: string,
+    lat?: string,
+    lng?: string
+  ): Promise<GeoPoint> {
+    let origin: GeoPoint | undefined;
+
+    if (lat !== undefined || lng !== undefined) {
+      origin = toGeoPoint(lat, lng);
+      if (
+        !origin ||
+        Math.abs(origin.coordinates[1]) > 90 ||
+        Math.abs(origin.coordinates[0]) > 180
+      ) {
+        throw AppError.badRequest("Please provide a valid lat and lng");
+      }
+    } else {
+      // ברירת מחדל - המיקום השמור של המשתמש המחובר
+      const user = await User.findById(userId).select("location");
+      origin = toGeoPoint(user?.location?.lat, user?.location?.lng);
+      if (!origin) {
+        throw AppError.badRequest(
+          "Please provide lat and lng or save your location in your profile"
+        );
+      }
+    }
+
+    return origin;
+  }
+
+  /**
+   * Resolve the search options, defaulting to the user's stored location
+   * @param userId ID of the connected user
+   * @param query Search query
+   * @returns Normalised search options
+   */
+  private async resolveOptions(
+    userId: string,
+    query: NearbyQuery
+  ): Promise<SearchOptions> {
+    const origin = await this.resolveOrigin(userId, query.lat, query.lng);
+
+    const radiusKm = query.radius ? Number(query.radius) : DEFAULT_RADIUS_KM;
+    if (isNaN(radiusKm) || radiusKm <= 0 || radiusKm > MAX_RADIUS_KM) {
+      throw AppError.badRequest(
+        `Radius must be between 0 and ${MAX_RADIUS_KM} km`
+      );
+    }
+
+    const limit = Math.min(Number(query.limit) || DEFAULT_LIMIT, MAX_LIMIT);
+
+    if (
+      query.sportCategory &&
+      !Object.values(SportCategoryEnum).includes(
+        query.sportCategory as SportCategoryEnum
+      )
+    ) {
+      throw AppError.badRequest("Invalid sport category");
+    }
+
+    return {
+      origin,
+      radiusKm,
+      limit,
+      sportCategory: query.sportCategory as SportCategoryEnum | undefined,
+    };
+  }
+}
+
+export const geoService = new GeoService();
@@ -0,0 +1,387 @@
+import mongoose, { PipelineStage } from "mongoose";
+import { Match } from "../models/Match";
+import Club from "../models/Club";
+import User from "../models/User";
+import { AppError } from "../middleware/errorMiddleware";
+import {
+  LeaderboardMetricEnum,
+  LeaderboardPeriodEnum,
+  MatchStatusEnum,
+  SportCategoryEnum,
+} from "../types/enums";
+import { getClubRoles } from "../utils/clubRoles";
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const DEFAULT_MIN_MATCHES = 1;
+// העונה מתחילה ב-1 באוגוסט (חודש 7 לפי UTC)
+const SEASON_START_MONTH = 7;
+
+export interface LeaderboardQuery {
+  metric?: string;
+  period?: string;
+  minMatches?: string;
+  page?: string;
+  limit?: string;
+}
+
+interface LeaderboardOptions {
+  metric: LeaderboardMetricEnum;
+  period: LeaderboardPeriodEnum;
+  minMatches: number;
+  page: number;
+  limit: number;
+}
+
+class LeaderboardService {
+  /**
+   * Rank the members of a club (club members only). All-time rankings come
+   * from the member counters, shorter periods from the finalized matches and
+   * rating rankings from the players' current Elo rating.
+   * @param clubId Club ID
+   * @param userId ID of the user requesting the leaderboard
+   * @param query metric, period, minMatches, page and limit
+   * @returns Ranked page of players and pagination info
+   */
+  async getClubLeaderboard(
+    clubId: string,
+    userId: string,
+    query: LeaderboardQuery
+  ) {
+    if (!mongoose.Types.ObjectId.isValid(clubId)) {
+      throw AppError.badRequest("Invalid club ID");
+    }
+
+    const club = await Club.findById(clubId);
+    if (!club) {
+      throw AppError.notFound("Club not found");
+    }
+
+    if (!getClubRoles(club, userId).isMember) {
+      throw AppError.forbidden(
+        "You must be a member of this club to view its leaderboard"
+      );
+    }
+
+    const options = this.resolveOptions(query);
+
+    // רק חברים נוכחיים מופיעים בטבלה של הקבוצה
+    const memberIds = club.members.map((member) => member.userId);
+
+    if (options.metric === LeaderboardMetricEnum.RATING) {
+      return await this.runLeaderboard(
+        User,
+        this.ratingStages(club.sportCategory, memberIds),
+        options
+      );
+    }
+
+    if (options.period === LeaderboardPeriodEnum.ALL) {
+      return await this.runLeaderboard(
+        Club,
+        [
+          { $match: { _id: club._id } },
+          { $unwind: "$members" },
+          {
+            $project: {
+              _id: "$members.userId",
+              goals: { $ifNull: ["$members.goals", 0] },
+              assists: { $ifNull: ["$members.assists", 0] },
+              points: { $ifNull: ["$members.points", 0] },
+              matches: { $ifNull: ["$members.matchesCount", 0] },
+            },
+          },
+        ],
+        options
+      );
+    }
+
+    return await this.runLeaderboard(
+      Match,
+      this.matchStatsStages({ clubId: club._id }, options, memberIds),
+      options
+    );
+  }
+
+  /**
+   * Rank the players of a sport across all public clubs, from finalized
+   * matches
+   * @param sportCategory Sport category
+   * @param query metric, period, minMatches, page and limit
+   * @returns Ranked page of players and pagination info
+   */
+  async getSportLeaderboard(sportCategory: string, query: LeaderboardQuery) {
+    if (
+      !Object.values(SportCategoryEnum).includes(
+        sportCategory as SportCategoryEnum
+      )
+    ) {
+      throw AppError.badRequest("Invalid sport category");
+    }
+
+    const options = this.resolveOptions(query);
+
+    if (options.metric === LeaderboardMetricEnum.RATING) {
+      return await this.runLeaderboard(
+        User,
+        this.ratingStages(sportCategory as SportCategoryEnum),
+        options
+      );
+    }
+
+    return await this.runLeaderboard(
+      Match,
+      // משחקים של קבוצות פרטיות אינם מוצגים בטבלה הכללית
+      this.matchStatsStages({ sportCategory }, options, undefined, true),
+      options
+    );
+  }
+
+  /**
+   * Build the stages that read each player's current Elo rating in a sport
+   * @param sportCategory Sport category
+   * @param userIds Optional players to keep
+   * @returns Pipeline stages producing one document per rated player
+   */
+  private ratingStages(
+    sportCategory: SportCategoryEnum,
+    userIds?: mongoose.Types.ObjectId[]
+  ): PipelineStage[] {
+    return [
+      {
+        $match: {
+          [`sportRatings.${sportCategory}.matchesCount`]: { $gt: 0 },
+          ...(userIds && { _id: { $in: userIds } }),
+        },
+      },
+      {
+        $project: {
+          rating: `$sportRatings.${sportCategory}.rating`,
+          matches: `$sportRatings.${sportCategory}.matchesCount`,
+        },
+      },
+    ];
+  }
+
+  /**
+   * Build the stages that sum each player's stats from finalized matches
+   * @param filter Club or sport filter
+   * @param options Leaderboard options
+   * @param userIds Optional players to keep
+   * @param publicClubsOnly Skip matches of private clubs
+   * @returns Pipeline stages producing one document per player
+   */
+  private matchStatsStages(
+    filter: Record<string, any>,
+    options: LeaderboardOptions,
+    userIds?: mongoose.Types.ObjectId[],
+    publicClubsOnly = false
+  ): PipelineStage[] {
+    const since = this.getPeriodStart(options.period);
+
+    return [
+      {
+        $match: {
+          ...filter,
+          status: MatchStatusEnum.FINALIZED,
+          // תקופה לפי מועד סיום המשחק ולא מועד יצירתו
+          ...(since && { finalizedAt: { $gte: since } }),
+        },
+      },
+      ...(publicClubsOnly
+        ? [
+            {
+              $lookup: {
+                from: Club.collection.name,
+                localField: "clubId",
+                foreignField: "_id",
+                as: "club",
+                pipeline: [{ $project: { isPrivet: 1 } }],
+              },
+            },
+            { $match: { club: { $elemMatch: { isPrivet: { $ne: true } } } } },
+          ]
+        : []),
+      { $unwind: "$appliedStats" },
+      ...(userIds
+        ? [{ $match: { "appliedStats.userId": { $in: userIds } } }]
+        : []),
+      {
+        $group: {
+          _id: "$appliedStats.userId",
+          goals: { $sum: "$appliedStats.goals" },
+          assists: { $sum: "$appliedStats.assists" },
+          points: { $sum: "$appliedStats.points" },
+          matches: { $sum: 1 },
+        },
+      },
+    ];
+  }
+
+  /**
+   * Rank per-player stats and return the requested page. Players with the
+   * same value share a rank (1, 2, 2, 4).
+   * @param model Model to aggregate on
+   * @param statsStages Stages producing { _id: userId, goals, assists,
+   * points, matches } or { _id: userId, rating, matches }
+   * @param options Leaderboard options
+   * @returns Ranked page of players and pagination info
+   */
+  private async runLeaderboard(
+    model: mongoose.Model<any>,
+    statsStages: PipelineStage[],
+    options: LeaderboardOptions
+  ) {
+    const { metric, minMatches, page, limit } = options;
+
+    const [result] = await model.aggregate([
+      ...statsStages,
+      {
+        $addFields: {
+          goalsPerMatch: {
+            $cond: [
+              { $gt: ["$matches", 0] },
+              { $round: [{ $divide: ["$goals", "$matches"] }, 2] },
+              0,
+            ],
+          },
+        },
+      },
+      { $match: { matches: { $gte: minMatches } } },
+      {
+        $setWindowFields: {
+          sortBy: { [metric]: -1 },
+          output: { rank: { $rank: {} } },
+        },
+      },
+      {
+        $facet: {
+          data: [
+            { $sort: { rank: 1, _id: 1 } },
+            { $skip: (page - 1) * limit },
+            { $limit: limit },
+            {
+              $lookup: {
+                from: User.collection.name,
+                localField: "_id",
+                foreignField: "_id",
+                as: "user",
+                pipeline: [
+                  { $project: { firstName: 1, lastName: 1, image: 1 } },
+                ],
+              },
+            },
+            { $unwind: { path: "$user", preserveNullAndEmptyArrays: true } },
+            {
+              $project: {
+                _id: 0,
+                rank: 1,
+                userId: "$_id",
+                user: 1,
+                goals: 1,
+                assists: 1,
+                points: 1,
+                matches: 1,
+                goalsPerMatch: 1,
+                rating: 1,
+              },
+            },
+          ],
+          total: [{ $count: "count" }],
+        },
+      },
+    ]);
+
+    const total = result?.total[0]?.count || 0;
+
+    return {
+      metric,
+      period: options.period,
+      data: result?.data || [],
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get the start date of a leaderboard period
+   * @param period Leaderboard period
+   * @returns Start date, or undefined for all time
+   */
+  private getPeriodStart(period: LeaderboardPeriodEnum) {
+    const now = new Date();
+
+    if (period === LeaderboardPeriodEnum.MONTH) {
+      return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    }
+
+    if (period === LeaderboardPeriodEnum.SEASON) {
+      const year =
+        now.getUTCMonth() >= SEASON_START_MONTH
+          ? now.getUTCFullYear()
+          : now.getUTCFullYear() - 1;
+      return new Date(Date.UTC(year, SEASON_START_MONTH, 1));
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Validate the leaderboard query and apply defaults
+   * @param query Leaderboard query
+   * @returns Normalised leaderboard options
+   */
+  private resolveOptions(query: LeaderboardQuery): LeaderboardOptions {
+    const metric = (query.metric ||
+      LeaderboardMetricEnum.POINTS) as LeaderboardMetricEnum;
+    if (!Object.values(LeaderboardMetricEnum).includes(metric)) {
+      throw AppError.badRequest(
+        `Metric must be one of: ${Object.values(LeaderboardMetricEnum).join(
+          ", "
+        )}`
+      );
+    }
+
+    const period = (query.period ||
+      LeaderboardPeriodEnum.ALL) as LeaderboardPeriodEnum;
+    if (!Object.values(LeaderboardPeriodEnum).includes(period)) {
+      throw AppError.badRequest(
+        `Period must be one of: ${Object.values(LeaderboardPeriodEnum).join(
+          ", "
+        )}`
+      );
+    }
+
+    // הדירוג הוא ערך נוכחי ולא סכום של תקופה
+    if (
+      metric === LeaderboardMetricEnum.RATING &&
+      period !== LeaderboardPeriodEnum.ALL
+    ) {
+      throw AppError.badRequest(
+        "Rating leaderboards are only available for all time"
+      );
+    }
+
+    const minMatches =
+      query.minMatches !== undefined
+        ? Number(query.minMatches)
+        : DEFAULT_MIN_MATCHES;
+    if (!Number.isInteger(minMatches) || minMatches < 0) {
+      throw AppError.badRequest("minMatches must be a non-negative integer");
+    }
+
+    const page = Math.max(Number(query.page) || 1, 1);
+    const limit = Math.min(
+      Math.max(Number(query.limit) || DEFAULT_LIMIT, 1),
+      MAX_LIMIT
+    );
+
+    return { metric, period, minMatches, page, limit };
+  }
+}
+
+export const leaderboardService = new LeaderboardService();
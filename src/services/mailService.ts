@@ -0,0 +1,91 @@
+import {
+  createMailTransport,
+  MailMessage,
+  MailTransport,
+} from "../utils/mailTransport";
+
+class MailService {
+  // נוצר בשליחה הראשונה - הגדרות שגויות נתפסות בעליית השרת ולא בייבוא
+  private transport?: MailTransport;
+
+  /**
+   * Replace the mail transport (a real provider in production, or a fake
+   * one in tests)
+   * @param transport Mail transport to use
+   */
+  setTransport(transport: MailTransport) {
+    this.transport = transport;
+  }
+
+  /**
+   * Send a mail through the configured transport
+   * @param message Mail to send
+   */
+  async send(message: MailMessage) {
+    this.transport ??= createMailTransport();
+    await this.transport.send(message);
+  }
+
+  /**
+   * Send the email address verification link of a new account
+   * @param to Email address to verify
+   * @param firstName First name of the user
+   * @param token Verification token
+   * @param expiresInHours Hours until the token expires
+   */
+  async sendVerificationEmail(
+    to: string,
+    firstName: string,
+    token: string,
+    expiresInHours: number
+  ) {
+    // קישור לאפליקציית הלקוח כאשר הכתובת מוגדרת, אחרת הטוקן עצמו
+    const link = process.env.CLIENT_URL
+      ? `${process.env.CLIENT_URL}/verify-email?token=${token}`
+      : undefined;
+
+    await this.send({
+      to,
+      subject: "Verify your email address",
+      text: [
+        `Hi ${firstName},`,
+        "Please verify your email address to start joining clubs.",
+        link ? `Verify here: ${link}` : `Verification token: ${token}`,
+        `The link expires in ${expiresInHours} hours.`,
+      ].join("\n\n"),
+    });
+  }
+
+  /**
+   * Send the password reset link of an account. The mail is marked sensitive
+   * so the token never reaches the server logs
+   * @param to Email address of the account
+   * @param firstName First name of the user
+   * @param token Password reset token
+   * @param expiresInMinutes Minutes until the token expires
+   */
+  async sendPasswordResetEmail(
+    to: string,
+    firstName: string,
+    token: string,
+    expiresInMinutes: number
+  ) {
+    const link = process.env.CLIENT_URL
+      ? `${process.env.CLIENT_URL}/reset-password?token=${token}`
+      : undefined;
+
+    await this.send({
+      to,
+      subject: "Reset your password",
+      sensitive: true,
+      text: [
+        `Hi ${firstName},`,
+        "We received a request to reset your password.",
+        link ? `Reset it here: ${link}` : `Reset token: ${token}`,
+        `The link expires in ${expiresInMinutes} minutes. If you did not request a reset, you can ignore this email.`,
+      ].join("\n\n"),
+    });
+  }
+}
+
+export const mailService = new MailService();
@@ -0,0 +1,579 @@
+import mongoose, { ClientSession } from "mongoose";
+import {
+  Match,
+  FootballMatch,
+  BasketballMatch,
+  IMatchBase,
+  IFootballMatch,
+  IBasketballMatch,
+  IMatchPlayerStats,
+} from "../models/Match";
+import Event from "../models/Event";
+import Club from "../models/Club";
+import User from "../models/User";
+import { AppError } from "../middleware/errorMiddleware";
+import {
+  EventStatusEnum,
+  MatchStatusEnum,
+  SportCategoryEnum,
+} from "../types/enums";
+import { getClubRoles } from "../utils/clubRoles";
+import { runInTransaction } from "../utils/transaction";
+import {
+  broadcastMatchUpdate,
+  broadcastMatchDeleted,
+} from "../realtime/matchBroadcaster";
+import { eloService } from "./eloService";
+
+export interface GoalInput {
+  scorer: string;
+  assist?: string;
+  team: string;
+  minute?: number;
+}
+
+export interface PlayerPointsInput {
+  playerId: string;
+  team: string;
+  points: number;
+}
+
+type MatchDocument = mongoose.HydratedDocument<IMatchBase>;
+type EventDocument = InstanceType<typeof Event>;
+
+class MatchService {
+  /**
+   * Create a match for an event (club admin/captain only)
+   * @param matchData eventId and optional two team names - defaults to the
+   * event's teams when exactly two were generated
+   * @param userId ID of the user creating the match
+   * @returns Created match
+   */
+  async createMatch(
+    matchData: { eventId: string; teams?: string[] },
+    userId: string
+  ) {
+    const { event } = await this.getManagedEvent(matchData.eventId, userId);
+
+    const eventTeams = Array.from(event.teams?.keys() || []);
+    const teams = matchData.teams || eventTeams;
+
+    if (!Array.isArray(teams) || teams.length !== 2 || teams[0] === teams[1]) {
+      throw AppError.badRequest("Please provide two different team names");
+    }
+
+    // אם לאירוע כבר יש קבוצות - המשחק חייב להיות בין שתיים מהן
+    if (eventTeams.length) {
+      const unknownTeam = teams.find((team) => !eventTeams.includes(team));
+      if (unknownTeam) {
+        throw AppError.badRequest(
+          `Team "${unknownTeam}" is not one of the event's teams`
+        );
+      }
+    }
+
+    const baseData = { eventId: event._id, clubId: event.clubId, teams };
+
+    // סוג המשחק נקבע לפי קטגוריית הספורט של האירוע
+    if (event.sportCategory === SportCategoryEnum.FOOTBALL) {
+      return await FootballMatch.create(baseData);
+    }
+    return await BasketballMatch.create(baseData);
+  }
+
+  /**
+   * Get match by ID (club members only)
+   * @param matchId Match ID
+   * @param userId ID of the user requesting the match
+   * @returns Match or null if not found or not a club member
+   */
+  async getMatchById(matchId: string, userId: string) {
+    if (!mongoose.Types.ObjectId.isValid(matchId)) {
+      throw AppError.badRequest("Invalid match ID");
+    }
+
+    const match = await Match.findById(matchId);
+    if (!match) {
+      return null;
+    }
+
+    const club = await Club.findById(match.clubId);
+    if (!club || !getClubRoles(club, userId).isMember) {
+      return null;
+    }
+
+    return match;
+  }
+
+  /**
+   * Get all matches of an event (club members only)
+   * @param eventId Event ID
+   * @param userId ID of the user requesting the matches
+   * @returns Array of the event's matches sorted by creation time
+   */
+  async getMatchesByEvent(eventId: string, userId: string) {
+    if (!mongoose.Types.ObjectId.isValid(eventId)) {
+      throw AppError.badRequest("Invalid event ID");
+    }
+
+    const event = await Event.findById(eventId);
+    if (!event) {
+      throw AppError.notFound("Event not found");
+    }
+
+    const club = await Club.findById(event.clubId);
+    if (!club || !getClubRoles(club, userId).isMember) {
+      throw AppError.forbidden(
+        "You must be a member of this club to view its matches"
+      );
+    }
+
+    return await Match.find({ eventId }).sort({ createdAt: 1 });
+  }
+
+  /**
+   * Delete a match (club admin/captain only)
+   * @param matchId Match ID
+   * @param userId ID of the user deleting the match
+   */
+  async deleteMatch(matchId: string, userId: string) {
+    const { match } = await this.getManagedMatch(matchId, userId);
+
+    await runInTransaction(async (session) => {
+      // המחיקה קודמת לביטול - מחיקה מקבילה לא תבטל את הסטטיסטיקות פעמיים
+      const deleted = await Match.deleteOne(
+        { _id: match._id, __v: match.__v },
+        { session }
+      );
+      if (!deleted.deletedCount) {
+        throw AppError.conflict(
+          "The match was updated by another request, please try again"
+        );
+      }
+
+      await this.applyStats(match.clubId, match.appliedStats, -1, session);
+      await eloService.reverseMatchRatings(match._id, session);
+    });
+
+    broadcastMatchDeleted(matchId);
+  }
+
+  /**
+   * Delete all the matches of an event, reversing the stats and rating
+   * changes of the finalized ones
+   * @param eventId Event ID
+   * @param session Transaction session of the event deletion, if any
+   */
+  async deleteEventMatches(eventId: string, session?: ClientSession) {
+    const matches = await Match.find({ eventId }).session(session ?? null);
+
+    for (const match of matches) {
+      // רק מי שמחק את המשחק מבטל את התרומה שלו, לפי הגרסה שנמחקה
+      const deleted = await Match.findOneAndDelete(
+        { _id: match._id },
+        { session }
+      );
+      if (!deleted) {
+        continue;
+      }
+      await this.applyStats(deleted.clubId, deleted.appliedStats, -1, session);
+      await eloService.reverseMatchRatings(deleted._id, session);
+    }
+  }
+
+  /**
+   * Finalize a match and add its goals, assists and points to the club
+   * member stats and the players' total stats
+   * @param matchId Match ID
+   * @param userId ID of the admin/captain finalizing the match
+   * @returns Finalized match
+   */
+  async finalizeMatch(matchId: string, userId: string) {
+    const { event, match } = await this.getManagedMatch(matchId, userId);
+
+    if (match.status === MatchStatusEnum.FINALIZED) {
+      throw AppError.badRequest("Match is already finalized");
+    }
+
+    match.status = MatchStatusEnum.FINALIZED;
+    match.finalizedAt = new Date();
+
+    const savedMatch = await this.saveMatch(match, event);
+    broadcastMatchUpdate("finalized", savedMatch);
+    return savedMatch;
+  }
+
+  /**
+   * Record a goal in a football match
+   * @param matchId Match ID
+   * @param goal Scorer, optional assist, team and optional minute
+   * @param userId ID of the admin/captain recording the goal
+   * @returns Updated match
+   */
+  async addGoal(matchId: string, goal: GoalInput, userId: string) {
+    const { event, match } = await this.getManagedMatch(matchId, userId);
+
+    if (match.sportCategory !== SportCategoryEnum.FOOTBALL) {
+      throw AppError.badRequest("Goals can only be recorded in football games");
+    }
+    const footballMatch = match as mongoose.HydratedDocument<IFootballMatch>;
+
+    if (!match.teams.includes(goal.team)) {
+      throw AppError.badRequest(
+        `Team "${goal.team}" is not playing this match`
+      );
+    }
+    if (
+      goal.minute !== undefined &&
+      (typeof goal.minute !== "number" || goal.minute < 0)
+    ) {
+      throw AppError.badRequest("Minute must be a non-negative number");
+    }
+
+    this.assertPlayerInTeam(event, goal.team, goal.scorer);
+    if (goal.assist) {
+      if (goal.assist === goal.scorer) {
+        throw AppError.badRequest("A player cannot assist their own goal");
+      }
+      this.assertPlayerInTeam(event, goal.team, goal.assist);
+    }
+
+    footballMatch.goals.push({
+      scorer: new mongoose.Types.ObjectId(goal.scorer),
+      assist: goal.assist
+        ? new mongoose.Types.ObjectId(goal.assist)
+        : undefined,
+      team: goal.team,
+      minute: goal.minute,
+    });
+
+    const savedMatch = await this.saveMatch(footballMatch, event);
+    broadcastMatchUpdate("goalAdded", savedMatch);
+    return savedMatch;
+  }
+
+  /**
+   * Remove a goal from a football match
+   * @param matchId Match ID
+   * @param goalId Goal ID
+   * @param userId ID of the admin/captain removing the goal
+   * @returns Updated match
+   */
+  async removeGoal(matchId: string, goalId: string, userId: string) {
+    const { event, match } = await this.getManagedMatch(matchId, userId);
+
+    if (match.sportCategory !== SportCategoryEnum.FOOTBALL) {
+      throw AppError.badRequest("Goals can only be recorded in football games");
+    }
+    const footballMatch = match as mongoose.HydratedDocument<IFootballMatch>;
+
+    const goal = footballMatch.goals.id(goalId);
+    if (!goal) {
+      throw AppError.notFound("Goal not found");
+    }
+    goal.deleteOne();
+
+    const savedMatch = await this.saveMatch(footballMatch, event);
+    broadcastMatchUpdate("goalRemoved", savedMatch);
+    return savedMatch;
+  }
+
+  /**
+   * Set the points a player scored in a basketball match
+   * @param matchId Match ID
+   * @param stat Player, team and total points of the player in the match
+   * @param userId ID of the admin/captain recording the points
+   * @returns Updated match
+   */
+  async setPlayerPoints(
+    matchId: string,
+    stat: PlayerPointsInput,
+    userId: string
+  ) {
+    const { event, match } = await this.getManagedMatch(matchId, userId);
+
+    if (match.sportCategory !== SportCategoryEnum.BASKETBALL) {
+      throw AppError.badRequest(
+        "Player points can only be recorded in basketball games"
+      );
+    }
+    const basketballMatch =
+      match as mongoose.HydratedDocument<IBasketballMatch>;
+
+    if (!match.teams.includes(stat.team)) {
+      throw AppError.badRequest(
+        `Team "${stat.team}" is not playing this match`
+      );
+    }
+    const points = Number(stat.points);
+    if (!Number.isInteger(points) || points < 0) {
+      throw AppError.badRequest("Points must be a non-negative integer");
+    }
+
+    this.assertPlayerInTeam(event, stat.team, stat.playerId);
+
+    // שחקן משויך לקבוצה אחת בלבד - הסרה מהקבוצה השנייה
+    for (const team of match.teams) {
+      const stats = (basketballMatch.teamStats.get(team) || []).filter(
+        (entry) => entry.playerId.toString() !== stat.playerId
+      );
+      if (team === stat.team) {
+        stats.push({
+          playerId: new mongoose.Types.ObjectId(stat.playerId),
+          points,
+        });
+      }
+      basketballMatch.teamStats.set(team, stats);
+    }
+
+    const savedMatch = await this.saveMatch(basketballMatch, event);
+    broadcastMatchUpdate("pointsUpdated", savedMatch);
+    return savedMatch;
+  }
+
+  /**
+   * Make sure a player is registered to the event and, when the event has
+   * teams, plays in the given team
+   * @param event Event of the match
+   * @param team Team name
+   * @param playerId Player ID
+   */
+  private assertPlayerInTeam(
+    event: EventDocument,
+    team: string,
+    playerId: string
+  ) {
+    if (!mongoose.Types.ObjectId.isValid(playerId)) {
+      throw AppError.badRequest("Invalid player ID");
+    }
+
+    const isParticipant = event.participants.some(
+      (participantId) => participantId.toString() === playerId
+    );
+    if (!isParticipant) {
+      throw AppError.badRequest("Player is not registered to this event");
+    }
+
+    const teamPlayers = event.teams?.get(team);
+    if (
+      teamPlayers &&
+      !teamPlayers.some((teamPlayerId) => teamPlayerId.toString() === playerId)
+    ) {
+      throw AppError.badRequest(`Player is not in team "${team}"`);
+    }
+  }
+
+  /**
+   * Save a match. A finalized match has its previous stats and Elo changes
+   * reversed and its current ones applied in the same transaction, so edits
+   * keep the club and user counters in sync. The version-checked save runs
+   * first, so a concurrent modification becomes a conflict before any
+   * counter is touched - also on a server without transactions.
+   * @param match Match document
+   * @param event Event of the match
+   * @returns Saved match
+   */
+  private async saveMatch<T extends MatchDocument>(
+    match: T,
+    event: EventDocument
+  ): Promise<T> {
+    try {
+      if (match.status !== MatchStatusEnum.FINALIZED) {
+        return await match.save();
+      }
+
+      return await runInTransaction(async (session) => {
+        const previousStats = match.appliedStats;
+        const currentStats = this.computePlayerStats(match, event);
+
+        // שמירה מותנית בגרסה - בקשה מקבילה נכשלת לפני שינוי המונים
+        match.set("appliedStats", currentStats);
+        const saved = await match.save({ session });
+
+        await this.applyStats(match.clubId, previousStats, -1, session);
+        await this.applyStats(match.clubId, currentStats, 1, session);
+
+        // דירוג Elo מחושב מחדש לפי התוצאה העדכנית
+        await eloService.reverseMatchRatings(match._id, session);
+        await eloService.applyMatchRatings(match, currentStats, session);
+
+        return saved;
+      });
+    } catch (error: any) {
+      if (error.name === "VersionError") {
+        throw AppError.conflict(
+          "The match was updated by another request, please try again"
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Calculate each player's contribution to a match. Every player of the
+   * two teams counts as having played; in football each goal is also a point.
+   * @param match Match document
+   * @param event Event of the match
+   * @returns Stats per player
+   */
+  private computePlayerStats(
+    match: MatchDocument,
+    event: EventDocument
+  ): IMatchPlayerStats[] {
+    const statsByPlayer = new Map<string, IMatchPlayerStats>();
+    const getStats = (playerId: mongoose.Types.ObjectId, team: string) => {
+      const key = playerId.toString();
+      if (!statsByPlayer.has(key)) {
+        statsByPlayer.set(key, {
+          userId: new mongoose.Types.ObjectId(key),
+          team,
+          goals: 0,
+          assists: 0,
+          points: 0,
+        });
+      }
+      return statsByPlayer.get(key)!;
+    };
+
+    for (const team of match.teams) {
+      for (const playerId of event.teams?.get(team) || []) {
+        getStats(playerId, team);
+      }
+    }
+
+    if (match.sportCategory === SportCategoryEnum.FOOTBALL) {
+      for (const goal of (match as unknown as IFootballMatch).goals) {
+        const scorerStats = getStats(goal.scorer, goal.team);
+        scorerStats.goals++;
+        scorerStats.points++;
+        if (goal.assist) {
+          getStats(goal.assist, goal.team).assists++;
+        }
+      }
+    } else {
+      const { teamStats } = match as unknown as IBasketballMatch;
+      for (const team of match.teams) {
+        for (const entry of teamStats.get(team) || []) {
+          getStats(entry.playerId, team).points += entry.points;
+        }
+      }
+    }
+
+    return Array.from(statsByPlayer.values());
+  }
+
+  /**
+   * Add (or with direction -1 subtract) match stats to the club members and
+   * the players' total stats
+   * @param clubId Club ID
+   * @param stats Stats per player
+   * @param direction 1 to apply, -1 to reverse
+   * @param session Transaction session, if any
+   */
+  private async applyStats(
+    clubId: mongoose.Types.ObjectId,
+    stats: IMatchPlayerStats[],
+    direction: 1 | -1,
+    session?: ClientSession
+  ) {
+    if (!stats.length) {
+      return;
+    }
+
+    await Club.bulkWrite(
+      stats.map((stat) => ({
+        updateOne: {
+          filter: { _id: clubId },
+          update: {
+            $inc: {
+              "members.$[member].goals": stat.goals * direction,
+              "members.$[member].assists": stat.assists * direction,
+              "members.$[member].points": stat.points * direction,
+              "members.$[member].matchesCount": direction,
+            },
+          },
+          arrayFilters: [{ "member.userId": stat.userId }],
+        },
+      })),
+      { session }
+    );
+
+    await User.bulkWrite(
+      stats.map((stat) => ({
+        updateOne: {
+          filter: { _id: stat.userId },
+          update: {
+            $inc: {
+              "totalStats.totalGames": direction,
+              "totalStats.totalPoints": stat.points * direction,
+              "totalStats.totalAssists": stat.assists * direction,
+            },
+          },
+        },
+      })),
+      { session }
+    );
+  }
+
+  /**
+   * Get an event whose matches the user can manage
+   * @param eventId Event ID
+   * @param userId ID of the admin/captain
+   * @returns Event and its club
+   */
+  private async getManagedEvent(eventId: string, userId: string) {
+    if (!mongoose.Types.ObjectId.isValid(eventId)) {
+      throw AppError.badRequest("Invalid event ID");
+    }
+
+    const event = await Event.findById(eventId);
+    if (!event) {
+      throw AppError.notFound("Event not found");
+    }
+
+    const club = await Club.findById(event.clubId);
+    if (!club) {
+      throw AppError.notFound("Club not found");
+    }
+
+    // רק מנהל או קפטן רושמים תוצאות
+    const { isAdmin, isCaptain } = getClubRoles(club, userId);
+    if (!isAdmin && !isCaptain) {
+      throw AppError.forbidden(
+        "Only the club admin or captains can manage matches"
+      );
+    }
+
+    if (event.status === EventStatusEnum.CANCELLED) {
+      throw AppError.badRequest("Cannot record matches of a cancelled event");
+    }
+
+    return { event, club };
+  }
+
+  /**
+   * Get a match the user can manage, together with its event
+   * @param matchId Match ID
+   * @param userId ID of the admin/captain
+   * @returns Match, its event and club
+   */
+  private async getManagedMatch(matchId: string, userId: string) {
+    if (!mongoose.Types.ObjectId.isValid(matchId)) {
+      throw AppError.badRequest("Invalid match ID");
+    }
+
+    const match = await Match.findById(matchId);
+    if (!match) {
+      throw AppError.notFound("Match not found");
+    }
+
+    const { event, club } = await this.getManagedEvent(
+      match.eventId.toString(),
+      userId
+    );
+
+    return { match, event, club };
+  }
+}
+
+export const matchService = new MatchService();
@@ -0,0 +1,147 @@
+import mongoose from "mongoose";
+import User from "../models/User";
+import { AppError } from "../middleware/errorMiddleware";
+import { generateOpaqueToken, hashToken } from "../utils/tokens";
+import { authService, SessionMeta } from "./authService";
+import { mailService } from "./mailService";
+
+const MINUTE_MS = 60 * 1000;
+const RESET_TOKEN_TTL_MINUTES = 60;
+// בקשות חוזרות בתוך זמן ההמתנה אינן שולחות מייל נוסף
+const RESET_REQUEST_COOLDOWN_MS = MINUTE_MS;
+
+class PasswordService {
+  /**
+   * Start a password reset - a time-limited token is mailed to the account.
+   * Unknown emails are ignored silently so the endpoint does not reveal
+   * which addresses are registered
+   * @param email Email address of the account
+   */
+  async requestPasswordReset(email: string) {
+    const user = await User.findOne({ email: email.toLowerCase() }).select(
+      "+passwordReset"
+    );
+    if (!user) {
+      return;
+    }
+
+    const now = new Date();
+    const requestedAt = user.passwordReset?.requestedAt;
+    if (
+      requestedAt &&
+      now.getTime() - requestedAt.getTime() < RESET_REQUEST_COOLDOWN_MS
+    ) {
+      return;
+    }
+
+    // טוקן חדש מחליף את הקודם - רק הקישור האחרון תקף
+    const token = generateOpaqueToken();
+    await User.updateOne(
+      { _id: user._id },
+      {
+        passwordReset: {
+          tokenHash: hashToken(token),
+          expiresAt: new Date(
+            now.getTime() + RESET_TOKEN_TTL_MINUTES * MINUTE_MS
+          ),
+          requestedAt: now,
+        },
+      }
+    );
+
+    await mailService.sendPasswordResetEmail(
+      user.email,
+      user.firstName,
+      token,
+      RESET_TOKEN_TTL_MINUTES
+    );
+  }
+
+  /**
+   * Set a new password with a reset token. The token is single-use and every
+   * existing session of the user is revoked
+   * @param token Reset token from the mail
+   * @param newPassword New password
+   */
+  async resetPassword(token: string, newPassword: string) {
+    // ניצול אטומי של הטוקן - בקשה מקבילה עם אותו טוקן לא תמצא אותו
+    const user = await User.findOneAndUpdate(
+      {
+        "passwordReset.tokenHash": hashToken(token),
+        "passwordReset.expiresAt": { $gt: new Date() },
+      },
+      { $unset: { passwordReset: 1 } }
+    );
+    if (!user) {
+      throw AppError.badRequest("Invalid or expired reset token");
+    }
+
+    await this.setPassword(user._id.toString(), newPassword);
+  }
+
+  /**
+   * Change the password of a connected user. Requires the current password,
+   * revokes every existing session and opens a new one for this device
+   * @param userId User ID
+   * @param currentPassword Current password
+   * @param newPassword New password
+   * @param meta Device the request was sent from
+   * @returns Tokens of the new session
+   */
+  async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+    meta: SessionMeta = {}
+  ) {
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      throw AppError.badRequest("Invalid user ID");
+    }
+
+    const user = await User.findById(userId).select("+password");
+    if (!user) {
+      throw AppError.notFound("User not found");
+    }
+
+    if (!(await user.matchPassword(currentPassword))) {
+      throw AppError.badRequest("Invalid request data", [
+        {
+          location: "body",
+          field: "currentPassword",
+          message: "Current password is incorrect",
+        },
+      ]);
+    }
+    if (await user.matchPassword(newPassword)) {
+      throw AppError.badRequest("Invalid request data", [
+        {
+          location: "body",
+          field: "newPassword",
+          message: "New password must be different from the current password",
+        },
+      ]);
+    }
+
+    await this.setPassword(userId, newPassword);
+    return await authService.createSession(userId, meta);
+  }
+
+  /**
+   * Save a new password (hashed by the model) and revoke all sessions
+   * @param userId User ID
+   * @param newPassword New password
+   */
+  private async setPassword(userId: string, newPassword: string) {
+    const user = await User.findById(userId).select("+password");
+    if (!user) {
+      throw AppError.notFound("User not found");
+    }
+
+    user.password = newPassword;
+    await user.save();
+
+    await authService.logoutAll(userId);
+  }
+}
+
+export const passwordService = new PasswordService();
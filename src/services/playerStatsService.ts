@@ -0,0 +1,255 @@
+import mongoose from "mongoose";
+import { Match, FootballMatch } from "../models/Match";
+import Club from "../models/Club";
+import User from "../models/User";
+import { AppError } from "../middleware/errorMiddleware";
+import {
+  MatchStatusEnum,
+  SportCategoryEnum,
+  UserRoleEnum,
+} from "../types/enums";
+import { ClubViewer } from "../utils/clubRoles";
+
+const DEFAULT_HISTORY_LIMIT = 20;
+const MAX_HISTORY_LIMIT = 100;
+const FAVOURITE_TEAMMATES_LIMIT = 5;
+
+type MatchOutcome = "win" | "draw" | "loss";
+
+interface PlayerMatch {
+  _id: mongoose.Types.ObjectId;
+  eventId: mongoose.Types.ObjectId;
+  clubId: mongoose.Types.ObjectId;
+  sportCategory: SportCategoryEnum;
+  teams: [string, string];
+  result: [number, number];
+  createdAt: Date;
+  stats: {
+    team: string;
+    goals: number;
+    assists: number;
+    points: number;
+  };
+}
+
+interface PlayerRecord {
+  matches: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  goals: number;
+  assists: number;
+  points: number;
+}
+
+const emptyRecord = (): PlayerRecord => ({
+  matches: 0,
+  wins: 0,
+  draws: 0,
+  losses: 0,
+  goals: 0,
+  assists: 0,
+  points: 0,
+});
+
+class PlayerStatsService {
+  /**
+   * Build a player's stats profile from their finalized matches: match
+   * history, win/draw/loss record, scoring streaks, favourite teammates and
+   * a breakdown per club. Matches of private clubs the viewer is not a
+   * member of are left out
+   * @param userId ID of the player
+   * @param viewer The connected user
+   * @param historyLimit Number of most recent matches to return
+   * @returns Player stats profile
+   */
+  async getPlayerProfile(
+    userId: string,
+    viewer: ClubViewer,
+    historyLimit?: number
+  ) {
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      throw AppError.badRequest("Invalid user ID");
+    }
+    const playerId = new mongoose.Types.ObjectId(userId);
+    const limit = Math.min(
+      Math.max(Number(historyLimit) || DEFAULT_HISTORY_LIMIT, 1),
+      MAX_HISTORY_LIMIT
+    );
+    const hiddenClubIds = await this.getHiddenClubIds(playerId, viewer);
+
+    // כל המשחקים הסגורים של השחקן, מהישן לחדש, עם השורה שלו בלבד
+    const matches: PlayerMatch[] = await Match.aggregate([
+      {
+        $match: {
+          status: MatchStatusEnum.FINALIZED,
+          "appliedStats.userId": playerId,
+          clubId: { $nin: hiddenClubIds },
+        },
+      },
+      { $sort: { createdAt: 1 } },
+      {
+        $project: {
+          eventId: 1,
+          clubId: 1,
+          sportCategory: 1,
+          teams: 1,
+          result: 1,
+          createdAt: 1,
+          stats: {
+            $first: {
+              $filter: {
+                input: "$appliedStats",
+                cond: { $eq: ["$$this.userId", playerId] },
+              },
+            },
+          },
+        },
+      },
+    ]);
+
+    const record = emptyRecord();
+    const recordByClub = new Map<string, PlayerRecord>();
+    let currentStreak = 0;
+    let longestStreak = 0;
+
+    const history = matches.map((match) => {
+      const teamIndex = match.teams.indexOf(match.stats.team);
+      const score = match.result[teamIndex];
+      const opponentScore = match.result[1 - teamIndex];
+      const outcome: MatchOutcome =
+        score > opponentScore ? "win" : score < opponentScore ? "loss" : "draw";
+
+      const clubKey = match.clubId.toString();
+      if (!recordByClub.has(clubKey)) {
+        recordByClub.set(clubKey, emptyRecord());
+      }
+      for (const totals of [record, recordByClub.get(clubKey)!]) {
+        totals.matches++;
+        totals.wins += outcome === "win" ? 1 : 0;
+        totals.draws += outcome === "draw" ? 1 : 0;
+        totals.losses += outcome === "loss" ? 1 : 0;
+        totals.goals += match.stats.goals;
+        totals.assists += match.stats.assists;
+        totals.points += match.stats.points;
+      }
+
+      // רצף משחקים רצופים עם לפחות נקודה אחת
+      currentStreak = match.stats.points > 0 ? currentStreak + 1 : 0;
+      longestStreak = Math.max(longestStreak, currentStreak);
+
+      return {
+        matchId: match._id,
+        eventId: match.eventId,
+        clubId: match.clubId,
+        sportCategory: match.sportCategory,
+        date: match.createdAt,
+        team: match.stats.team,
+        opponent: match.teams[1 - teamIndex],
+        score: [score, opponentScore],
+        outcome,
+        goals: match.stats.goals,
+        assists: match.stats.assists,
+        points: match.stats.points,
+      };
+    });
+
+    const clubs = await Club.find({
+      _id: { $in: Array.from(recordByClub.keys()) },
+    }).select("name image sportCategory");
+    const clubsById = new Map(clubs.map((club) => [club.id, club]));
+
+    return {
+      record,
+      streaks: {
+        currentScoringStreak: currentStreak,
+        longestScoringStreak: longestStreak,
+      },
+      history: history.reverse().slice(0, limit),
+      favouriteTeammates: await this.getFavouriteTeammates(
+        playerId,
+        hiddenClubIds
+      ),
+      clubs: Array.from(recordByClub.entries()).map(([clubId, totals]) => ({
+        clubId,
+        club: clubsById.get(clubId) || null,
+        ...totals,
+      })),
+    };
+  }
+
+  /**
+   * Get the private clubs of a player's matches that the viewer may not see -
+   * the player themselves and super admins see every club
+   * @param playerId Player ID
+   * @param viewer The connected user
+   * @returns IDs of the clubs to leave out
+   */
+  private async getHiddenClubIds(
+    playerId: mongoose.Types.ObjectId,
+    viewer: ClubViewer
+  ): Promise<mongoose.Types.ObjectId[]> {
+    if (
+      viewer.id === playerId.toString() ||
+      viewer.role === UserRoleEnum.SUPER_ADMIN
+    ) {
+      return [];
+    }
+
+    const clubIds = await Match.distinct("clubId", {
+      status: MatchStatusEnum.FINALIZED,
+      "appliedStats.userId": playerId,
+    });
+
+    const hiddenClubs = await Club.find({
+      _id: { $in: clubIds },
+      isPrivet: true,
+      "members.userId": { $ne: new mongoose.Types.ObjectId(viewer.id) },
+    }).select("_id");
+    return hiddenClubs.map((club) => club._id as mongoose.Types.ObjectId);
+  }
+
+  /**
+   * Get the teammates who assisted the player's goals the most
+   * @param playerId Player ID
+   * @param hiddenClubIds Clubs whose matches are left out
+   * @returns Teammates with the number of assists they gave the player
+   */
+  private async getFavouriteTeammates(
+    playerId: mongoose.Types.ObjectId,
+    hiddenClubIds: mongoose.Types.ObjectId[]
+  ) {
+    return await FootballMatch.aggregate([
+      {
+        $match: {
+          status: MatchStatusEnum.FINALIZED,
+          "goals.scorer": playerId,
+          clubId: { $nin: hiddenClubIds },
+        },
+      },
+      { $unwind: "$goals" },
+      {
+        $match: {
+          "goals.scorer": playerId,
+          "goals.assist": { $ne: null },
+        },
+      },
+      { $group: { _id: "$goals.assist", assists: { $sum: 1 } } },
+      { $sort: { assists: -1, _id: 1 } },
+      { $limit: FAVOURITE_TEAMMATES_LIMIT },
+      {
+        $lookup: {
+          from: User.collection.name,
+          localField: "_id",
+          foreignField: "_id",
+          as: "user",
+          pipeline: [{ $project: { firstName: 1, lastName: 1, image: 1 } }],
+        },
+      },
+      { $unwind: { path: "$user", preserveNullAndEmptyArrays: true } },
+      { $project: { _id: 0, userId: "$_id", user: 1, assists: 1 } },
+    ]);
+  }
+}
+
+export const playerStatsService = new PlayerStatsService();
@@ -0,0 +1,205 @@
+import mongoose from "mongoose";
+import PlayerRating from "../models/PlayerRating";
+import Event from "../models/Event";
+import Club from "../models/Club";
+import User from "../models/User";
+import { AppError } from "../middleware/errorMiddleware";
+import { EventStatusEnum } from "../types/enums";
+import { trimmedMean } from "../utils/rating";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// אפשר לדרג עד שבוע אחרי סיום האירוע
+const RATING_WINDOW_DAYS = 7;
+// דירוג השחקן מתעדכן רק אחרי מספר מינימלי של מדרגים
+const MIN_RATINGS_TO_UPDATE = 3;
+
+export interface RatingInput {
+  userId: string;
+  rating: number;
+}
+
+class RatingService {
+  /**
+   * Rate teammates and opponents after a completed event. Each participant
+   * can rate every other participant once per event.
+   * @param eventId Event ID
+   * @param raterId ID of the participant giving the ratings
+   * @param ratings Rated players and their ratings (1-10)
+   * @returns Saved ratings
+   */
+  async submitRatings(
+    eventId: string,
+    raterId: string,
+    ratings: RatingInput[]
+  ) {
+    const event = await this.getRatableEvent(eventId, raterId);
+
+    if (!Array.isArray(ratings) || !ratings.length) {
+      throw AppError.badRequest("Please provide at least one rating");
+    }
+
+    const participantIds = event.participants.map((id) => id.toString());
+    const ratedIds = new Set<string>();
+
+    for (const { userId, rating } of ratings) {
+      if (userId === raterId) {
+        throw AppError.badRequest("You cannot rate yourself");
+      }
+      if (!participantIds.includes(userId)) {
+        throw AppError.badRequest(
+          `User ${userId} did not participate in this event`
+        );
+      }
+      if (ratedIds.has(userId)) {
+        throw AppError.badRequest(`User ${userId} appears more than once`);
+      }
+      if (typeof rating !== "number" || rating < 1 || rating > 10) {
+        throw AppError.badRequest("Ratings must be numbers between 1 and 10");
+      }
+      ratedIds.add(userId);
+    }
+
+    const alreadyRated = await PlayerRating.find({
+      eventId,
+      raterId,
+      ratedId: { $in: Array.from(ratedIds) },
+    }).select("ratedId");
+    if (alreadyRated.length) {
+      throw AppError.conflict(
+        `You already rated ${alreadyRated
+          .map((rating) => rating.ratedId.toString())
+          .join(", ")} in this event`
+      );
+    }
+
+    let saved;
+    try {
+      saved = await PlayerRating.insertMany(
+        ratings.map(({ userId, rating }) => ({
+          eventId,
+          clubId: event.clubId,
+          raterId,
+          ratedId: userId,
+          rating,
+        }))
+      );
+    } catch (error: any) {
+      // בקשה מקבילה עם אותו זוג נחסמת באינדקס הייחודי
+      if (error.code === 11000) {
+        throw AppError.conflict(
+          "You already rated these players in this event"
+        );
+      }
+      throw error;
+    }
+
+    for (const ratedId of ratedIds) {
+      await this.updatePlayerSkill(ratedId, event.clubId);
+    }
+
+    return saved;
+  }
+
+  /**
+   * Get which participants the user has already rated in an event and which
+   * are still pending
+   * @param eventId Event ID
+   * @param raterId ID of the participant
+   * @returns Rated players with their ratings and pending player IDs
+   */
+  async getEventRatingStatus(eventId: string, raterId: string) {
+    const event = await this.getRatableEvent(eventId, raterId);
+
+    const given = await PlayerRating.find({ eventId, raterId }).select(
+      "ratedId rating"
+    );
+    const ratedIds = new Set(given.map((rating) => rating.ratedId.toString()));
+
+    return {
+      closesAt: new Date(
+        event.time.end.getTime() + RATING_WINDOW_DAYS * DAY_MS
+      ),
+      rated: given.map((rating) => ({
+        userId: rating.ratedId,
+        rating: rating.rating,
+      })),
+      pending: event.participants.filter(
+        (id) => id.toString() !== raterId && !ratedIds.has(id.toString())
+      ),
+    };
+  }
+
+  /**
+   * Recalculate a player's club skillRating and global avgSkillRating from
+   * the peer ratings they received
+   * @param ratedId ID of the rated player
+   * @param clubId Club of the event that was rated
+   */
+  private async updatePlayerSkill(
+    ratedId: string,
+    clubId: mongoose.Types.ObjectId
+  ) {
+    const ratings = await PlayerRating.find({ ratedId }).select(
+      "clubId rating"
+    );
+
+    const clubRatings = ratings
+      .filter((rating) => rating.clubId.equals(clubId))
+      .map((rating) => rating.rating);
+    if (clubRatings.length >= MIN_RATINGS_TO_UPDATE) {
+      await Club.updateOne(
+        { _id: clubId, "members.userId": ratedId },
+        { $set: { "members.$.skillRating": trimmedMean(clubRatings) } }
+      );
+    }
+
+    if (ratings.length >= MIN_RATINGS_TO_UPDATE) {
+      await User.updateOne(
+        { _id: ratedId },
+        {
+          avgSkillRating: trimmedMean(ratings.map((rating) => rating.rating)),
+        }
+      );
+    }
+  }
+
+  /**
+   * Get a completed event the user participated in and can still rate
+   * @param eventId Event ID
+   * @param raterId ID of the participant
+   * @returns Event
+   */
+  private async getRatableEvent(eventId: string, raterId: string) {
+    if (!mongoose.Types.ObjectId.isValid(eventId)) {
+      throw AppError.badRequest("Invalid event ID");
+    }
+
+    const event = await Event.findById(eventId);
+    if (!event) {
+      throw AppError.notFound("Event not found");
+    }
+
+    if (event.status !== EventStatusEnum.COMPLETED) {
+      throw AppError.badRequest("Players can only be rated after the event");
+    }
+
+    const isParticipant = event.participants.some(
+      (id) => id.toString() === raterId
+    );
+    if (!isParticipant) {
+      throw AppError.forbidden(
+        "Only participants of the event can rate its players"
+      );
+    }
+
+    if (Date.now() > event.time.end.getTime() + RATING_WINDOW_DAYS * DAY_MS) {
+      throw AppError.badRequest(
+        `Ratings close ${RATING_WINDOW_DAYS} days after the event`
+      );
+    }
+
+    return event;
+  }
+}
+
+export const ratingService = new RatingService();
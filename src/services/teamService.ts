@@ -0,0 +1,232 @@
+import mongoose from "mongoose";
+import Event from "../models/Event";
+import Club from "../models/Club";
+import User from "../models/User";
+import { AppError } from "../middleware/errorMiddleware";
+import { SportCategoryEnum, EventStatusEnum } from "../types/enums";
+import { getClubRoles } from "../utils/clubRoles";
+import { generateBalancedTeams, BalancePlayer } from "../utils/teamBalancer";
+import { eloToSkill, INITIAL_ELO_RATING } from "../utils/rating";
+
+export type TeamRatingSource = "skill" | "elo";
+
+const MIN_TEAMS = 2;
+const MAX_TEAMS = 10;
+
+class TeamService {
+  /**
+   * Generate balanced teams from the registered players of an event
+   * @param eventId Event ID
+   * @param userId ID of the admin/captain generating the teams
+   * @param options teamsCount - number of teams, shuffle - randomise similar
+   * players, preview - return the teams without saving them, ratingSource -
+   * balance by the club skillRating (default) or by the players' Elo rating
+   * @returns Generated teams, warnings and whether they were saved
+   */
+  async generateTeams(
+    eventId: string,
+    userId: string,
+    options: {
+      teamsCount?: number;
+      shuffle?: boolean;
+      preview?: boolean;
+      ratingSource?: TeamRatingSource;
+    }
+  ) {
+    const { event, club } = await this.getManagedEvent(eventId, userId);
+    const teamsCount = Number(options.teamsCount) || MIN_TEAMS;
+    const preview = !!options.preview;
+
+    if (teamsCount < MIN_TEAMS || teamsCount > MAX_TEAMS) {
+      throw AppError.badRequest(
+        `Number of teams must be between ${MIN_TEAMS} and ${MAX_TEAMS}`
+      );
+    }
+
+    if (!preview && event.teamsLocked) {
+      throw AppError.badRequest("Teams are locked. Unlock them first");
+    }
+
+    if (event.participants.length < teamsCount) {
+      throw AppError.badRequest(
+        `At least ${teamsCount} registered players are needed to create ${teamsCount} teams`
+      );
+    }
+
+    const ratingSource = options.ratingSource || "skill";
+    if (!["skill", "elo"].includes(ratingSource)) {
+      throw AppError.badRequest('Rating source must be "skill" or "elo"');
+    }
+
+    // דירוג Elo מומר לסולם 0-10 של מאזן הקבוצות
+    const eloSkillById = new Map<string, number>();
+    if (ratingSource === "elo") {
+      const sport = event.sportCategory as SportCategoryEnum;
+      const users = await User.find({
+        _id: { $in: event.participants },
+      }).select("sportRatings");
+      for (const user of users) {
+        eloSkillById.set(
+          user.id,
+          eloToSkill(user.sportRatings?.[sport]?.rating ?? INITIAL_ELO_RATING)
+        );
+      }
+    }
+
+    // דירוג ועמדות של כל שחקן נלקחים מהחברות שלו בקבוצה
+    const membersById = new Map(
+      club.members.map((member) => [member.userId.toString(), member])
+    );
+    const players: BalancePlayer[] = event.participants.map((participantId) => {
+      const member = membersById.get(participantId.toString());
+      return {
+        userId: participantId.toString(),
+        skillRating:
+          ratingSource === "elo"
+            ? eloSkillById.get(participantId.toString()) ??
+              eloToSkill(INITIAL_ELO_RATING)
+            : member?.skillRating || 0,
+        positions: member?.positions || [],
+      };
+    });
+
+    const { teams, warnings } = generateBalancedTeams(
+      players,
+      teamsCount,
+      event.sportCategory as SportCategoryEnum,
+      !!options.shuffle
+    );
+
+    if (!preview) {
+      event.teams = new Map(
+        teams.map((team) => [
+          team.name,
+          team.players.map(
+            (player) => new mongoose.Types.ObjectId(player.userId)
+          ),
+        ])
+      );
+      await event.save();
+    }
+
+    return { teams, warnings, saved: !preview };
+  }
+
+  /**
+   * Lock or unlock the teams of an event
+   * @param eventId Event ID
+   * @param userId ID of the admin/captain
+   * @param locked true to lock, false to unlock
+   * @returns Updated event
+   */
+  async setTeamsLocked(eventId: string, userId: string, locked: boolean) {
+    const { event } = await this.getManagedEvent(eventId, userId);
+
+    if (locked && event.teams.size === 0) {
+      throw AppError.badRequest("There are no teams to lock");
+    }
+
+    event.teamsLocked = locked;
+    return await event.save();
+  }
+
+  /**
+   * Swap two players between teams
+   * @param eventId Event ID
+   * @param userId ID of the admin/captain
+   * @param firstPlayerId ID of the first player
+   * @param secondPlayerId ID of the second player
+   * @returns Updated event
+   */
+  async swapPlayers(
+    eventId: string,
+    userId: string,
+    firstPlayerId: string,
+    secondPlayerId: string
+  ) {
+    const { event } = await this.getManagedEvent(eventId, userId);
+
+    if (event.teamsLocked) {
+      throw AppError.badRequest("Teams are locked. Unlock them first");
+    }
+
+    const findTeam = (playerId: string) =>
+      [...event.teams.entries()].find(([, players]) =>
+        players.some((id) => id.toString() === playerId)
+      );
+
+    const first = findTeam(firstPlayerId);
+    const second = findTeam(secondPlayerId);
+    if (!first || !second) {
+      throw AppError.badRequest("Both players must be assigned to a team");
+    }
+
+    const [firstTeam, firstPlayers] = first;
+    const [secondTeam, secondPlayers] = second;
+    if (firstTeam === secondTeam) {
+      throw AppError.badRequest("Both players are already on the same team");
+    }
+
+    const replace = (
+      players: mongoose.Types.ObjectId[],
+      from: string,
+      to: string
+    ) =>
+      players.map((id) =>
+        id.toString() === from ? new mongoose.Types.ObjectId(to) : id
+      );
+
+    event.teams.set(
+      firstTeam,
+      replace(firstPlayers, firstPlayerId, secondPlayerId)
+    );
+    event.teams.set(
+      secondTeam,
+      replace(secondPlayers, secondPlayerId, firstPlayerId)
+    );
+
+    return await event.save();
+  }
+
+  /**
+   * Load an event that the user manages and that has not kicked off yet
+   * @param eventId Event ID
+   * @param userId ID of the user
+   * @returns The event and its club
+   */
+  private async getManagedEvent(eventId: string, userId: string) {
+    if (!mongoose.Types.ObjectId.isValid(eventId)) {
+      throw AppError.badRequest("Invalid event ID");
+    }
+
+    const event = await Event.findById(eventId);
+    if (!event) {
+      throw AppError.notFound("Event not found");
+    }
+
+    const club = await Club.findById(event.clubId);
+    if (!club) {
+      throw AppError.notFound("Club not found");
+    }
+
+    // רק מנהל או קפטן מנהלים את הקבוצות
+    const { isAdmin, isCaptain } = getClubRoles(club, userId);
+    if (!isAdmin && !isCaptain) {
+      throw AppError.forbidden(
+        "Only the club admin or captains can manage event teams"
+      );
+    }
+
+    // ניהול הקבוצות אפשרי רק לפני תחילת המשחק
+    if (
+      event.status !== EventStatusEnum.UPCOMING ||
+      event.time.start <= new Date()
+    ) {
+      throw AppError.badRequest("Teams can only be changed before kickoff");
+    }
+
+    return { event, club };
+  }
+}
+
+export const teamService = new TeamService();
@@ -2,8 +2,18 @@ import mongoose from "mongoose";
 import User from "../models/User";
 import Club from "../models/Club";
 import Event from "../models/Event";
+import Field from "../models/Field";
 import { AppError } from "../middleware/errorMiddleware";
-import { UserRoleEnum, ClubStatusEnum } from "../types/enums";
+import {
+  UserRoleEnum,
+  ClubStatusEnum,
+  AccountStatusEnum,
+  AuditActionEnum,
+} from "../types/enums";
+import { getClubRoles, ClubViewer } from "../utils/clubRoles";
+import { authService } from "./authService";
+import { auditLogService } from "./auditLogService";
+import { RegisterUserDto, UpdateUserDto } from "../validation/userSchemas";
 
 class UserService {
   /**
@@ -11,9 +21,14 @@ class UserService {
    * @param userData User data to create
    * @returns Created user
    */
-  async createUser(userData: any) {
+  async createUser(userData: RegisterUserDto & { role: UserRoleEnum }) {
     try {
-      const user = await User.create(userData);
+      // חשבון חדש ממתין לאימות האימייל
+      const user = await User.create({
+        ...userData,
+        isEmailVerified: false,
+        accountStatus: AccountStatusEnum.PENDING_VERIFICATION,
+      });
       return user;
     } catch (error: any) {
       if (error.code === 11000) {
@@ -45,11 +60,12 @@ class UserService {
   }
 
   /**
-   * Get users by club ID
+   * Get users by club ID (club members only)
    * @param clubId Club ID
+   * @param viewer The connected user
    * @returns Array of users in the club
    */
-  async getUsersByClub(clubId: string) {
+  async getUsersByClub(clubId: string, viewer: ClubViewer) {
     if (!mongoose.Types.ObjectId.isValid(clubId)) {
       throw AppError.badRequest("Invalid club ID");
     }
@@ -60,6 +76,16 @@ class UserService {
       throw AppError.notFound("Club not found");
     }
 
+    // Only members can see who is in the club
+    if (
+      viewer.role !== UserRoleEnum.SUPER_ADMIN &&
+      !getClubRoles(club, viewer.id).isMember
+    ) {
+      throw AppError.forbidden(
+        "You must be a member of this club to view its members"
+      );
+    }
+
     // Extract all user IDs from the members array
     const memberIds = club.members.map((member: any) => member.userId);
 
@@ -68,11 +94,13 @@ class UserService {
   }
 
   /**
-   * Get users by event ID
+   * Get users by event ID - the participants of a private club's event are
+   * visible to its members only
    * @param eventId Event ID
-   * @returns Array of users in the event
+   * @param viewer The connected user
+   * @returns Registered users and waitlisted users, each in registration order
    */
-  async getUsersByEvent(eventId: string) {
+  async getUsersByEvent(eventId: string, viewer: ClubViewer) {
     if (!mongoose.Types.ObjectId.isValid(eventId)) {
       throw AppError.badRequest("Invalid event ID");
     }
@@ -83,16 +111,34 @@ class UserService {
       throw AppError.notFound("Event not found");
     }
 
-    // Extract all user IDs from the teams
-    let userIds: mongoose.Types.ObjectId[] = [];
+    // Only members can see who plays in a private club's events
+    const club = await Club.findById(event.clubId);
+    if (
+      club?.isPrivet &&
+      viewer.role !== UserRoleEnum.SUPER_ADMIN &&
+      !getClubRoles(club, viewer.id).isMember
+    ) {
+      throw AppError.forbidden(
+        "You must be a member of this club to view its event participants"
+      );
+    }
 
-    // Iterate through the Map of teams
-    event.teams.forEach((teamMembers) => {
-      userIds = userIds.concat(teamMembers);
+    // Fetch all registered and waitlisted users at once
+    const users = await User.find({
+      _id: { $in: [...event.participants, ...event.waitlist] },
     });
-
-    // Fetch all users with those IDs
-    return await User.find({ _id: { $in: userIds } });
+    const usersById = new Map(users.map((user) => [user._id.toString(), user]));
+
+    // Keep the registration order of each list
+    const inOrder = (ids: mongoose.Types.ObjectId[]) =>
+      ids
+        .map((id) => usersById.get(id.toString()))
+        .filter((user) => user !== undefined);
+
+    return {
+      participants: inOrder(event.participants),
+      waitlist: inOrder(event.waitlist),
+    };
   }
 
   /**
@@ -101,15 +147,13 @@ class UserService {
    * @param updateData Data to update
    * @returns Updated user or null if not found
    */
-  async updateUser(id: string, updateData: any) {
+  async updateUser(id: string, updateData: UpdateUserDto) {
     if (!mongoose.Types.ObjectId.isValid(id)) {
       throw AppError.badRequest("Invalid user ID");
     }
 
-    // נמנע עדכון של שדות רגישים באופן ישיר
-    const { password, role, subscriptions, ...safeUpdateData } = updateData;
-
-    return await User.findByIdAndUpdate(id, safeUpdateData, {
+    // הסכמה מאפשרת רק שדות פרופיל - שדות רגישים לא יגיעו לכאן
+    return await User.findByIdAndUpdate(id, updateData, {
       new: true,
       runValidators: true,
     });
@@ -131,9 +175,111 @@ class UserService {
     // 3. Handle any pending requests
 
     const user = await User.findByIdAndDelete(id);
+    if (user) {
+      await authService.deleteUserSessions(id);
+    }
     return !!user;
   }
 
+  /**
+   * Suspend or reactivate an account (super admin only). Suspending revokes
+   * every session of the user, and both actions are written to the audit log
+   * @param userId ID of the user to update
+   * @param status "suspended" or "active"
+   * @param reason Reason of the change
+   * @param adminId ID of the super admin making the change
+   * @returns Updated user or null if not found
+   */
+  async updateAccountStatus(
+    userId: string,
+    status: AccountStatusEnum.SUSPENDED | AccountStatusEnum.ACTIVE,
+    reason: string,
+    adminId: string
+  ) {
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      throw AppError.badRequest("Invalid user ID");
+    }
+    if (userId === adminId) {
+      throw AppError.badRequest("You cannot change your own account status");
+    }
+
+    const user = await User.findById(userId).select("+previousAccountStatus");
+    if (!user) {
+      return null;
+    }
+    if (user.role === UserRoleEnum.SUPER_ADMIN) {
+      throw AppError.forbidden("Super admin accounts cannot be suspended");
+    }
+
+    const previousStatus = user.accountStatus;
+    const suspend = status === AccountStatusEnum.SUSPENDED;
+
+    if (suspend && previousStatus === AccountStatusEnum.SUSPENDED) {
+      throw AppError.conflict("Account is already suspended");
+    }
+    // הפעלה מחדש רלוונטית רק לחשבון מושעה, נעול או לא פעיל
+    if (
+      !suspend &&
+      ![
+        AccountStatusEnum.SUSPENDED,
+        AccountStatusEnum.LOCKED,
+        AccountStatusEnum.INACTIVE,
+      ].includes(previousStatus)
+    ) {
+      throw AppError.conflict("Account is not suspended");
+    }
+
+    // השעיה של חשבון נעול שומרת את הסטטוס שלפני הנעילה
+    const restorableStatus = [
+      AccountStatusEnum.ACTIVE,
+      AccountStatusEnum.PENDING_VERIFICATION,
+    ].includes(previousStatus)
+      ? previousStatus
+      : user.previousAccountStatus;
+
+    // עדכון מותנה - שינוי מקביל של הסטטוס לא יידרס
+    const updated = await User.findOneAndUpdate(
+      { _id: userId, accountStatus: previousStatus },
+      suspend
+        ? {
+            accountStatus: AccountStatusEnum.SUSPENDED,
+            statusReason: reason,
+            previousAccountStatus: restorableStatus,
+          }
+        : {
+            accountStatus: authService.getRestoredStatus(user),
+            failedLoginAttempts: 0,
+            $unset: {
+              statusReason: 1,
+              lockedUntil: 1,
+              previousAccountStatus: 1,
+            },
+          },
+      { new: true }
+    );
+    if (!updated) {
+      throw AppError.conflict(
+        "Account status was changed by another request, please try again"
+      );
+    }
+
+    if (suspend) {
+      await authService.logoutAll(userId);
+    }
+
+    await auditLogService.record({
+      action: suspend
+        ? AuditActionEnum.USER_SUSPENDED
+        : AuditActionEnum.USER_REACTIVATED,
+      actorId: adminId,
+      targetUserId: userId,
+      reason,
+      metadata: { previousStatus, status: updated.accountStatus },
+    });
+
+    return updated;
+  }
+
   /**
    * Update user's subscription
    * @param userId User ID
@@ -337,6 +483,60 @@ class UserService {
     );
   }
 
+  /**
+   * Get the user's favorite fields
+   * @param userId User ID
+   * @returns Array of favorite fields or null if user not found
+   */
+  async getFavoriteFields(userId: string) {
+    const user = await User.findById(userId).populate("favoriteFields");
+    if (!user) {
+      return null;
+    }
+    return user.favoriteFields;
+  }
+
+  /**
+   * Add a field to the user's favorites
+   * @param userId User ID
+   * @param fieldId Field ID
+   * @returns Updated user or null if not found
+   */
+  async addFavoriteField(userId: string, fieldId: string) {
+    if (!mongoose.Types.ObjectId.isValid(fieldId)) {
+      throw AppError.badRequest("Invalid field ID");
+    }
+
+    const fieldExists = await Field.exists({ _id: fieldId });
+    if (!fieldExists) {
+      throw AppError.notFound("Field not found");
+    }
+
+    return await User.findByIdAndUpdate(
+      userId,
+      { $addToSet: { favoriteFields: fieldId } },
+      { new: true }
+    );
+  }
+
+  /**
+   * Remove a field from the user's favorites
+   * @param userId User ID
+   * @param fieldId Field ID
+   * @returns Updated user or null if not found
+   */
+  async removeFavoriteField(userId: string, fieldId: string) {
+    if (!mongoose.Types.ObjectId.isValid(fieldId)) {
+      throw AppError.badRequest("Invalid field ID");
+    }
+
+    return await User.findByIdAndUpdate(
+      userId,
+      { $pull: { favoriteFields: fieldId } },
+      { new: true }
+    );
+  }
+
   /**
    * Find users by role
    * @param role User role
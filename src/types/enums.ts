@@ -7,6 +7,12 @@ export enum UserRoleEnum {
   SUPER_ADMIN = "super_admin",
 }
 
+// תפקיד של חבר בתוך קבוצה (שונה מתפקיד המשתמש במערכת)
+export enum ClubMemberRoleEnum {
+  USER = "user",
+  CAPTAIN = "captain",
+}
+
 export enum SportCategoryEnum {
   FOOTBALL = "football",
   BASKETBALL = "basketball",
@@ -49,6 +55,12 @@ export enum AccountStatusEnum {
   PENDING_VERIFICATION = "pending_verification",
 }
 
+export enum AuditActionEnum {
+  USER_SUSPENDED = "user_suspended",
+  USER_REACTIVATED = "user_reactivated",
+  USER_LOCKED = "user_locked",
+}
+
 export enum RequestStatusEnum {
   PENDING = "pending",
   ACCEPTED = "accepted",
@@ -60,3 +72,51 @@ export enum ClubStatusEnum {
   INACTIVE = "inactive",
   FULL = "full",
 }
+
+export enum ClubSortEnum {
+  NEWEST = "newest",
+  MOST_MEMBERS = "mostMembers",
+  NEAREST = "nearest",
+}
+
+export enum EventStatusEnum {
+  UPCOMING = "upcoming",
+  ONGOING = "ongoing",
+  COMPLETED = "completed",
+  CANCELLED = "cancelled",
+}
+
+export enum RecurrenceFrequencyEnum {
+  WEEKLY = "weekly",
+  BIWEEKLY = "biweekly",
+  CUSTOM = "custom",
+}
+
+export enum FieldSurfaceEnum {
+  GRASS = "grass",
+  ARTIFICIAL_TURF = "artificial_turf",
+  PARQUET = "parquet",
+  ASPHALT = "asphalt",
+  RUBBER = "rubber",
+  OTHER = "other",
+}
+
+export enum MatchStatusEnum {
+  IN_PROGRESS = "in_progress",
+  FINALIZED = "finalized",
+}
+
+export enum LeaderboardMetricEnum {
+  GOALS = "goals",
+  ASSISTS = "assists",
+  POINTS = "points",
+  MATCHES = "matches",
+  GOALS_PER_MATCH = "goalsPerMatch",
+  RATING = "rating",
+}
+
+export enum LeaderboardPeriodEnum {
+  MONTH = "month",
+  SEASON = "season",
+  ALL = "all",
+}
@@ -0,0 +1,70 @@
+import {
+  calculateEloChanges,
+  EloPlayer,
+  INITIAL_ELO_RATING,
+} from "../rating";
+
+const player = (
+  userId: string,
+  rating = INITIAL_ELO_RATING,
+  matchesCount = 20
+): EloPlayer => ({ userId, rating, matchesCount });
+
+describe("calculateEloChanges", () => {
+  it("moves equal teams by half the K factor on a win", () => {
+    const changes = calculateEloChanges(
+      [[player("a")], [player("b")]],
+      [3, 1]
+    );
+
+    expect(changes).toEqual([
+      { userId: "a", ratingBefore: 1500, ratingAfter: 1510, delta: 10 },
+      { userId: "b", ratingBefore: 1500, ratingAfter: 1490, delta: -10 },
+    ]);
+  });
+
+  it("leaves equal teams unchanged on a draw", () => {
+    const changes = calculateEloChanges(
+      [[player("a")], [player("b")]],
+      [2, 2]
+    );
+
+    expect(changes.map((change) => change.delta)).toEqual([0, 0]);
+  });
+
+  it("rewards an upset more than an expected win", () => {
+    const [underdogWin] = calculateEloChanges(
+      [[player("a", 1400)], [player("b", 1600)]],
+      [1, 0]
+    );
+    const [favouriteWin] = calculateEloChanges(
+      [[player("a", 1600)], [player("b", 1400)]],
+      [1, 0]
+    );
+
+    expect(underdogWin.delta).toBeGreaterThan(favouriteWin.delta);
+    expect(favouriteWin.delta).toBeGreaterThan(0);
+  });
+
+  it("uses the provisional K factor for new players", () => {
+    const changes = calculateEloChanges(
+      [[player("new", 1500, 0)], [player("veteran")]],
+      [1, 0]
+    );
+
+    expect(changes.map((change) => change.delta)).toEqual([16, -10]);
+  });
+
+  it("gives a team with an extra player a higher expected score", () => {
+    const [bigTeamWin] = calculateEloChanges(
+      [[player("a"), player("b"), player("c")], [player("d"), player("e")]],
+      [1, 0]
+    );
+
+    expect(bigTeamWin.delta).toBeLessThan(10);
+  });
+
+  it("returns no changes when a team has no players", () => {
+    expect(calculateEloChanges([[player("a")], []], [1, 0])).toEqual([]);
+  });
+});
@@ -0,0 +1,47 @@
+import mongoose from "mongoose";
+import { UserRoleEnum } from "../types/enums";
+
+// מבנה מינימלי של קבוצה הנדרש לבדיקת הרשאות
+interface ClubMembership {
+  admin: mongoose.Types.ObjectId;
+  captains: mongoose.Types.ObjectId[];
+  members: { userId: mongoose.Types.ObjectId }[];
+}
+
+// מזהה של הפניה גם כאשר היא מאוכלסת (populate) במסמך המלא
+const refId = (ref: mongoose.Types.ObjectId) =>
+  ((ref as { _id?: mongoose.Types.ObjectId })._id ?? ref).toString();
+
+// המשתמש המחובר שצופה בנתוני הקבוצה
+export interface ClubViewer {
+  id: string;
+  role: UserRoleEnum;
+}
+
+export interface ClubRoles {
+  isAdmin: boolean;
+  isCaptain: boolean;
+  isMember: boolean;
+}
+
+/**
+ * Resolve the roles a user holds in a club
+ * @param club Club document (or any object with admin, captains and members),
+ * populated or not
+ * @param userId ID of the user to check
+ * @returns Flags for admin, captain and member
+ */
+export const getClubRoles = (
+  club: ClubMembership,
+  userId: string
+): ClubRoles => {
+  const isAdmin = refId(club.admin) === userId;
+  const isCaptain = club.captains.some(
+    (captainId) => refId(captainId) === userId
+  );
+  const isMember = club.members.some(
+    (member) => refId(member.userId) === userId
+  );
+
+  return { isAdmin, isCaptain, isMember };
+};
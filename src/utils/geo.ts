@@ -0,0 +1,150 @@
+import { Query, Schema } from "mongoose";
+
+export interface GeoPoint {
+  type: "Point";
+  coordinates: [number, number]; // [lng, lat] לפי GeoJSON
+}
+
+// נקודת GeoJSON שנשמרת לצד lat/lng ומשמשת לחיפושים גיאוגרפיים
+export const PointSchema = new Schema(
+  {
+    type: {
+      type: String,
+      enum: ["Point"],
+      required: true,
+    },
+    coordinates: {
+      type: [Number],
+      default: undefined,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Build a GeoJSON point from latitude and longitude
+ * @param lat Latitude
+ * @param lng Longitude
+ * @returns GeoJSON point or undefined if a coordinate is missing
+ */
+export const toGeoPoint = (
+  lat: unknown,
+  lng: unknown
+): GeoPoint | undefined => {
+  if (
+    lat === undefined ||
+    lat === null ||
+    lng === undefined ||
+    lng === null ||
+    isNaN(Number(lat)) ||
+    isNaN(Number(lng))
+  ) {
+    return undefined;
+  }
+  return { type: "Point", coordinates: [Number(lng), Number(lat)] };
+};
+
+// עדכון הנקודה בתוך אובייקט location שמכיל lat/lng
+const withPoint = (location: any) => {
+  if (!location || typeof location !== "object") {
+    return location;
+  }
+  const point = toGeoPoint(location.lat, location.lng);
+  return point ? { ...location, point } : location;
+};
+
+// נתיבי הקואורדינטות בעדכון חלקי של המיקום
+const COORDINATE_PATHS = ["location.lat", "location.lng"] as const;
+
+/**
+ * Keep `location.point` in sync on an update query
+ * @param query Update query
+ * @param many Whether the query may update several documents
+ */
+const syncUpdatedPoint = async (query: Query<any, any>, many: boolean) => {
+  const update: any = query.getUpdate();
+  if (!update || Array.isArray(update)) {
+    return;
+  }
+
+  if (update.location) {
+    update.location = withPoint(update.location);
+  }
+  if (update.$set?.location) {
+    update.$set.location = withPoint(update.$set.location);
+  }
+
+  // עדכון של קואורדינטה אחת או שתיהן בנפרד
+  const set = update.$set || update;
+  const unset = update.$unset || {};
+  const changed = COORDINATE_PATHS.filter(
+    (path) => path in set || path in unset
+  );
+  if (changed.length === 0) {
+    query.setUpdate(update);
+    return;
+  }
+
+  const coordinates: Record<string, unknown> = {
+    "location.lat": set["location.lat"],
+    "location.lng": set["location.lng"],
+  };
+  // קואורדינטה שלא עודכנה נלקחת מהמסמך הקיים
+  if (changed.length < COORDINATE_PATHS.length) {
+    if (many) {
+      throw new Error(
+        "Update location.lat and location.lng together when updating many documents"
+      );
+    }
+    const current: any = await query.model
+      .findOne(query.getFilter())
+      .select("location")
+      .session(query.getOptions().session ?? null)
+      .lean();
+    for (const path of COORDINATE_PATHS) {
+      if (!changed.includes(path)) {
+        coordinates[path] = current?.location?.[path.split(".")[1]];
+      }
+    }
+  }
+
+  const point = toGeoPoint(
+    coordinates["location.lat"],
+    coordinates["location.lng"]
+  );
+  if (point) {
+    set["location.point"] = point;
+  } else {
+    // מיקום חסר קואורדינטה אינו ניתן לחיפוש גיאוגרפי
+    update.$unset = { ...update.$unset, "location.point": 1 };
+  }
+
+  query.setUpdate(update);
+};
+
+/**
+ * Mongoose plugin that keeps `location.point` in sync with
+ * `location.lat`/`location.lng` on save and on updates - both updates that
+ * replace the whole location object and dotted-path updates of one or both
+ * coordinates. Documents saved before the plugin was added are filled by
+ * `npm run backfill:geo` (src/scripts/backfillGeoPoints.ts)
+ * @param schema Schema with a `location` object holding lat, lng and point
+ */
+export const geoPointPlugin = (schema: Schema) => {
+  schema.pre("validate", function (next) {
+    const location: any = this.get("location");
+    const point = toGeoPoint(location?.lat, location?.lng);
+    if (point) {
+      this.set("location.point", point);
+    }
+    next();
+  });
+
+  schema.pre(["findOneAndUpdate", "updateOne"], function () {
+    return syncUpdatedPoint(this, false);
+  });
+  schema.pre("updateMany", function () {
+    return syncUpdatedPoint(this, true);
+  });
+};
@@ -0,0 +1,100 @@
+import fs from "fs/promises";
+import path from "path";
+import { getMailConfig } from "../config/mail";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  // המייל מכיל אישור גישה (כמו טוקן איפוס) - התוכן לעולם לא נכתב ללוג
+  sensitive?: boolean;
+}
+
+// כל ספק דואר (SMTP, שירות חיצוני וכו') מממש את הממשק הזה
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Print mails to the console - the default for local development. The body
+ * of a sensitive mail is not printed; use the file transport to read it
+ */
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage) {
+    const body = message.sensitive
+      ? "(body hidden - it contains a credential, use MAIL_TRANSPORT=file to read it)"
+      : message.text;
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${body}`);
+  }
+}
+
+/**
+ * Append mails as JSON lines to a file, so tests and local tools can read
+ * the links that were sent
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly filePath: string) {}
+
+  async send(message: MailMessage) {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(
+      this.filePath,
+      `${JSON.stringify({ ...message, sentAt: new Date() })}\n`
+    );
+  }
+}
+
+/**
+ * Send mails through the JSON API of a mail provider - the transport used
+ * in production
+ */
+export class HttpMailTransport implements MailTransport {
+  constructor(
+    private readonly url: string,
+    private readonly apiKey: string,
+    private readonly from: string
+  ) {}
+
+  async send({ sensitive, ...message }: MailMessage) {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({ from: this.from, ...message }),
+    });
+
+    // השגיאה לא כוללת את תוכן המייל - הוא עלול להכיל טוקנים
+    if (!response.ok) {
+      throw new Error(
+        `Mail provider rejected the mail to ${message.to} (${response.status})`
+      );
+    }
+  }
+}
+
+/**
+ * Create the mail transport configured by MAIL_TRANSPORT ("console", "file"
+ * or "http"). Only the http transport is allowed in production
+ * @returns Mail transport
+ */
+export const createMailTransport = (): MailTransport => {
+  const config = getMailConfig();
+
+  switch (config.transport) {
+    case "http":
+      return new HttpMailTransport(
+        config.apiUrl!,
+        config.apiKey!,
+        config.from!
+      );
+    case "file":
+      return new FileMailTransport(
+        config.filePath || path.join("tmp", "mail", "outbox.jsonl")
+      );
+    default:
+      return new ConsoleMailTransport();
+  }
+};
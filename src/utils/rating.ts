@@ -0,0 +1,106 @@
+// החלק שנחתך מכל צד לפני חישוב הממוצע
+const TRIM_RATIO = 0.1;
+// מתחת למספר הזה לא חותכים - אין מספיק דירוגים כדי לזהות חריגים
+const MIN_RATINGS_TO_TRIM = 5;
+
+/**
+ * Average ratings after dropping the highest and lowest outliers, so a few
+ * extreme ratings cannot move a player's score on their own
+ * @param ratings Ratings to average
+ * @returns Trimmed mean rounded to one decimal, or 0 when there are none
+ */
+export const trimmedMean = (ratings: number[]) => {
+  if (!ratings.length) {
+    return 0;
+  }
+
+  const sorted = [...ratings].sort((a, b) => a - b);
+  const trimCount =
+    sorted.length >= MIN_RATINGS_TO_TRIM
+      ? Math.max(1, Math.floor(sorted.length * TRIM_RATIO))
+      : 0;
+  const kept = sorted.slice(trimCount, sorted.length - trimCount);
+
+  const mean = kept.reduce((sum, rating) => sum + rating, 0) / kept.length;
+  return Math.round(mean * 10) / 10;
+};
+
+export const INITIAL_ELO_RATING = 1500;
+// K גבוה לשחקנים חדשים כדי שיגיעו מהר לדירוג האמיתי שלהם
+const PROVISIONAL_K_FACTOR = 32;
+const K_FACTOR = 20;
+const PROVISIONAL_MATCHES = 10;
+// יתרון של שחקן נוסף בקבוצה, בנקודות דירוג
+const EXTRA_PLAYER_ADVANTAGE = 50;
+
+export interface EloPlayer {
+  userId: string;
+  rating: number;
+  matchesCount: number;
+}
+
+export interface EloChange {
+  userId: string;
+  ratingBefore: number;
+  ratingAfter: number;
+  delta: number;
+}
+
+/**
+ * Calculate the rating change of every player in a two-team match. A team's
+ * strength is its average rating plus an advantage for each extra player it
+ * has over the opponent; a draw scores half a win.
+ * @param teams Players of the two teams
+ * @param result Score of the two teams
+ * @returns Rating change per player
+ */
+export const calculateEloChanges = (
+  teams: [EloPlayer[], EloPlayer[]],
+  result: [number, number]
+): EloChange[] => {
+  if (!teams[0].length || !teams[1].length) {
+    return [];
+  }
+
+  const average = (players: EloPlayer[]) =>
+    players.reduce((sum, player) => sum + player.rating, 0) / players.length;
+  const strengths = [
+    average(teams[0]) +
+      (teams[0].length - teams[1].length) * EXTRA_PLAYER_ADVANTAGE,
+    average(teams[1]),
+  ];
+
+  const score =
+    result[0] > result[1]
+      ? [1, 0]
+      : result[0] < result[1]
+      ? [0, 1]
+      : [0.5, 0.5];
+
+  return teams.flatMap((players, index) => {
+    const expected =
+      1 / (1 + Math.pow(10, (strengths[1 - index] - strengths[index]) / 400));
+
+    return players.map((player) => {
+      const kFactor =
+        player.matchesCount < PROVISIONAL_MATCHES
+          ? PROVISIONAL_K_FACTOR
+          : K_FACTOR;
+      const delta = Math.round(kFactor * (score[index] - expected));
+      return {
+        userId: player.userId,
+        ratingBefore: player.rating,
+        ratingAfter: player.rating + delta,
+        delta,
+      };
+    });
+  });
+};
+
+/**
+ * Convert an Elo rating to the 0-10 skill scale used by the team balancer
+ * @param rating Elo rating
+ * @returns Skill between 0 and 10 (1500 is 5)
+ */
+export const eloToSkill = (rating: number) =>
+  Math.min(Math.max((rating - 1000) / 100, 0), 10);
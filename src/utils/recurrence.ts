@@ -0,0 +1,81 @@
+import { RecurrenceFrequencyEnum } from "../types/enums";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+// מגבלה על מספר המופעים בסדרה אחת (שנתיים של משחק שבועי)
+export const MAX_SERIES_OCCURRENCES = 104;
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequencyEnum;
+  weekdays?: number[];
+  interval?: number;
+  until?: Date;
+  count?: number;
+}
+
+/**
+ * Normalise a recurrence rule: weekly and bi-weekly rules repeat on the
+ * weekday of the first occurrence, custom rules list their own weekdays
+ * @param rule Recurrence rule as provided by the user
+ * @param firstStart Start time of the first occurrence
+ * @returns Weekdays and interval (in weeks) to repeat on
+ */
+export const normalizeRecurrence = (rule: RecurrenceRule, firstStart: Date) => {
+  switch (rule.frequency) {
+    case RecurrenceFrequencyEnum.WEEKLY:
+      return { weekdays: [firstStart.getUTCDay()], interval: 1 };
+    case RecurrenceFrequencyEnum.BIWEEKLY:
+      return { weekdays: [firstStart.getUTCDay()], interval: 2 };
+    case RecurrenceFrequencyEnum.CUSTOM:
+      return {
+        weekdays: [...new Set(rule.weekdays || [])].sort((a, b) => a - b),
+        interval: rule.interval || 1,
+      };
+    default:
+      throw new Error("Invalid recurrence frequency");
+  }
+};
+
+/**
+ * Generate the start times of every occurrence of a recurrence rule.
+ * Times are computed in UTC, so every occurrence keeps the UTC time of day
+ * of the first one.
+ * @param rule Recurrence rule
+ * @param firstStart Start time of the first occurrence
+ * @returns Start times in chronological order
+ */
+export const generateOccurrences = (
+  rule: RecurrenceRule,
+  firstStart: Date
+): Date[] => {
+  const { weekdays, interval } = normalizeRecurrence(rule, firstStart);
+  if (weekdays.length === 0) {
+    return [];
+  }
+
+  const limit = Math.min(
+    rule.count || MAX_SERIES_OCCURRENCES,
+    MAX_SERIES_OCCURRENCES
+  );
+  const until = rule.until ? new Date(rule.until).getTime() : Infinity;
+
+  // תחילת השבוע (יום ראשון) של המופע הראשון, באותה שעה ביום
+  const weekStart = firstStart.getTime() - firstStart.getUTCDay() * DAY_MS;
+  const occurrences: Date[] = [];
+
+  for (let week = 0; occurrences.length < limit; week += interval) {
+    for (const weekday of weekdays) {
+      const start = weekStart + week * WEEK_MS + weekday * DAY_MS;
+      if (start < firstStart.getTime()) {
+        continue;
+      }
+      if (start > until || occurrences.length >= limit) {
+        return occurrences;
+      }
+      occurrences.push(new Date(start));
+    }
+  }
+
+  return occurrences;
+};
@@ -0,0 +1,229 @@
+import {
+  SportCategoryEnum,
+  footballPositionsEnum,
+  basketballPositionsEnum,
+} from "../types/enums";
+
+export interface BalancePlayer {
+  userId: string;
+  skillRating: number;
+  positions: string[];
+}
+
+export interface BalancedTeam {
+  name: string;
+  players: BalancePlayer[];
+  totalSkill: number;
+  avgSkill: number;
+}
+
+export interface BalanceResult {
+  teams: BalancedTeam[];
+  warnings: string[];
+}
+
+interface TeamDraft {
+  name: string;
+  players: BalancePlayer[];
+  totalSkill: number;
+  groupCounts: Record<string, number>;
+}
+
+// קבוצת עמדות שמחולקת באופן שווה בין הקבוצות
+interface PositionGroup {
+  key: string;
+  players: BalancePlayer[];
+  // קבוצת "מילוי" מתחשבת קודם בגודל הקבוצה ורק אחר כך בעמדה
+  isFill?: boolean;
+}
+
+const GUARDS = [basketballPositionsEnum.PG, basketballPositionsEnum.SG];
+const WINGS = [basketballPositionsEnum.SF];
+const BIGS = [basketballPositionsEnum.PF, basketballPositionsEnum.C];
+
+// רעש אקראי שמוסף לדירוג בעת ערבוב, כך ששחקנים ברמה דומה מחליפים קבוצות
+const SHUFFLE_NOISE = 1.5;
+
+/**
+ * Split players into balanced teams by skill rating and positions
+ * @param players Players to split
+ * @param teamsCount Number of teams to create
+ * @param sportCategory Sport of the event, decides the position rules
+ * @param shuffle Add randomness so repeated calls produce different line-ups
+ * @returns Generated teams and warnings about unmet position rules
+ */
+export const generateBalancedTeams = (
+  players: BalancePlayer[],
+  teamsCount: number,
+  sportCategory: SportCategoryEnum,
+  shuffle = false
+): BalanceResult => {
+  const warnings: string[] = [];
+  const teams: TeamDraft[] = Array.from({ length: teamsCount }, (_, i) => ({
+    name: `Team ${i + 1}`,
+    players: [],
+    totalSkill: 0,
+    groupCounts: {},
+  }));
+
+  // ציון למיון - עם רעש אקראי אם התבקש ערבוב
+  const sortScore = new Map(
+    players.map((player) => [
+      player.userId,
+      player.skillRating +
+        (shuffle ? (Math.random() * 2 - 1) * SHUFFLE_NOISE : 0),
+    ])
+  );
+
+  const groups =
+    sportCategory === SportCategoryEnum.FOOTBALL
+      ? buildFootballGroups(players, teamsCount, warnings)
+      : buildBasketballGroups(players);
+
+  for (const group of groups) {
+    const sorted = [...group.players].sort(
+      (a, b) => sortScore.get(b.userId)! - sortScore.get(a.userId)!
+    );
+
+    for (const player of sorted) {
+      const target = pickTeam(teams, group);
+      target.players.push(player);
+      target.totalSkill += player.skillRating;
+      target.groupCounts[group.key] = (target.groupCounts[group.key] || 0) + 1;
+    }
+  }
+
+  rebalanceSizes(teams, sportCategory);
+
+  return {
+    teams: teams.map((team) => ({
+      name: team.name,
+      players: team.players,
+      totalSkill: round(team.totalSkill),
+      avgSkill: team.players.length
+        ? round(team.totalSkill / team.players.length)
+        : 0,
+    })),
+    warnings,
+  };
+};
+
+// כדורגל - שוער אחד בדיוק לכל קבוצה, השאר שחקני שדה
+const buildFootballGroups = (
+  players: BalancePlayer[],
+  teamsCount: number,
+  warnings: string[]
+): PositionGroup[] => {
+  const isGoalkeeper = (player: BalancePlayer) =>
+    player.positions.includes(footballPositionsEnum.GK);
+
+  // עדיפות לשחקנים ששוער היא העמדה הראשית שלהם, ואז לפי דירוג
+  const goalkeepers = players
+    .filter(isGoalkeeper)
+    .sort(
+      (a, b) =>
+        Number(b.positions[0] === footballPositionsEnum.GK) -
+          Number(a.positions[0] === footballPositionsEnum.GK) ||
+        b.skillRating - a.skillRating
+    )
+    .slice(0, teamsCount);
+
+  if (goalkeepers.length < teamsCount) {
+    warnings.push(
+      `Only ${goalkeepers.length} of ${teamsCount} teams have a goalkeeper`
+    );
+  }
+
+  const keeperIds = new Set(goalkeepers.map((player) => player.userId));
+
+  return [
+    { key: footballPositionsEnum.GK, players: goalkeepers },
+    {
+      key: "outfield",
+      players: players.filter((player) => !keeperIds.has(player.userId)),
+      isFill: true,
+    },
+  ];
+};
+
+// כדורסל - פיזור שווה של גבוהים, רכזים וכנפיים לפי העמדה הראשית
+const buildBasketballGroups = (players: BalancePlayer[]): PositionGroup[] => {
+  const primaryIn = (positions: string[]) => (player: BalancePlayer) =>
+    positions.includes(player.positions[0]);
+
+  const bigs = players.filter(primaryIn(BIGS));
+  const guards = players.filter(primaryIn(GUARDS));
+  const wings = players.filter(primaryIn(WINGS));
+  const flex = players.filter(
+    (player) => !primaryIn([...BIGS, ...GUARDS, ...WINGS])(player)
+  );
+
+  return [
+    { key: "big", players: bigs },
+    { key: "guard", players: guards },
+    { key: "wing", players: wings },
+    { key: "flex", players: flex, isFill: true },
+  ];
+};
+
+// בחירת הקבוצה המתאימה ביותר לשחקן הבא
+const pickTeam = (teams: TeamDraft[], group: PositionGroup): TeamDraft => {
+  const keyOf = (team: TeamDraft) =>
+    group.isFill
+      ? [team.players.length, team.totalSkill]
+      : [
+          team.groupCounts[group.key] || 0,
+          team.players.length,
+          team.totalSkill,
+        ];
+
+  return teams.reduce((best, team) => {
+    const a = keyOf(team);
+    const b = keyOf(best);
+    for (let i = 0; i < a.length; i++) {
+      if (a[i] !== b[i]) {
+        return a[i] < b[i] ? team : best;
+      }
+    }
+    return best;
+  });
+};
+
+// יישור גדלי הקבוצות כך שההפרש ביניהן יהיה לכל היותר שחקן אחד
+const rebalanceSizes = (
+  teams: TeamDraft[],
+  sportCategory: SportCategoryEnum
+) => {
+  while (true) {
+    const bySize = [...teams].sort(
+      (a, b) => a.players.length - b.players.length
+    );
+    const smallest = bySize[0];
+    const largest = bySize[bySize.length - 1];
+    if (largest.players.length - smallest.players.length <= 1) {
+      return;
+    }
+
+    // העברת השחקן החלש ביותר שאינו שוער
+    const movable = largest.players
+      .filter(
+        (player) =>
+          sportCategory !== SportCategoryEnum.FOOTBALL ||
+          !player.positions.includes(footballPositionsEnum.GK) ||
+          largest.players.filter((p) =>
+            p.positions.includes(footballPositionsEnum.GK)
+          ).length > 1
+      )
+      .sort((a, b) => a.skillRating - b.skillRating)[0];
+    if (!movable) {
+      return;
+    }
+
+    largest.players = largest.players.filter((p) => p !== movable);
+    largest.totalSkill -= movable.skillRating;
+    smallest.players.push(movable);
+    smallest.totalSkill += movable.skillRating;
+  }
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
@@ -0,0 +1,17 @@
+import crypto from "crypto";
+
+/**
+ * Generate a random opaque token to send to the client
+ * @returns URL-safe token
+ */
+export const generateOpaqueToken = () =>
+  crypto.randomBytes(48).toString("base64url");
+
+/**
+ * Hash a token before storing it, so a leaked database cannot be used to
+ * log in or reset passwords
+ * @param token Raw token
+ * @returns SHA-256 hash of the token
+ */
+export const hashToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
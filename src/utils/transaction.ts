@@ -0,0 +1,40 @@
+import mongoose, { ClientSession } from "mongoose";
+
+// נקבע פעם אחת לכל חיבור - שרת עצמאי אינו תומך בטרנזקציות
+let transactionsSupported: boolean | undefined;
+
+/**
+ * Check whether the connected MongoDB deployment supports transactions -
+ * only replica sets and sharded clusters (mongos) do
+ * @returns true if transactions are supported
+ */
+export const supportsTransactions = async () => {
+  if (transactionsSupported === undefined) {
+    try {
+      const hello = await mongoose.connection.db!.admin().command({ hello: 1 });
+      transactionsSupported =
+        Boolean(hello.setName) || hello.msg === "isdbgrid";
+    } catch {
+      transactionsSupported = false;
+    }
+  }
+  return transactionsSupported;
+};
+
+/**
+ * Run multi-document writes in a transaction when the deployment supports
+ * it. On a standalone server the work runs without a session, as ordered
+ * writes that are not rolled back on failure - the work must make its
+ * version-checked claim first, so a concurrent request fails before it
+ * writes anything
+ * @param work Writes to run - receives the session, if one is used
+ * @returns The result of the work
+ */
+export const runInTransaction = async <T>(
+  work: (session?: ClientSession) => Promise<T>
+): Promise<T> => {
+  if (!(await supportsTransactions())) {
+    return await work();
+  }
+  return await mongoose.connection.transaction(work);
+};
@@ -0,0 +1,114 @@
+import { z } from "zod";
+import {
+  ClubMemberRoleEnum,
+  ClubSortEnum,
+  ClubStatusEnum,
+} from "../types/enums";
+import {
+  booleanQuery,
+  idParams,
+  latitude,
+  longitude,
+  numberQuery,
+  paginationQuery,
+  sportCategory,
+} from "./common";
+
+const location = z.strictObject({
+  country: z.string().trim().optional(),
+  city: z.string().trim().optional(),
+  address: z.string().trim().optional(),
+  lat: latitude.optional(),
+  lng: longitude.optional(),
+});
+
+const clubRole = z.enum(ClubMemberRoleEnum);
+
+export const createClubSchema = z.strictObject({
+  name: z.string().trim().min(1).max(30),
+  description: z.string().trim().min(1).max(500),
+  sportCategory,
+  image: z.string().optional(),
+  isPrivet: z.boolean().optional(),
+  maxPlayers: z.number().int().min(2).optional(),
+  location: location.optional(),
+});
+
+// ענף הספורט, המנהל, הקפטנים והחברים משתנים רק דרך הניתובים הייעודיים
+export const updateClubSchema = z
+  .strictObject({
+    name: createClubSchema.shape.name,
+    description: createClubSchema.shape.description,
+    image: z.string(),
+    isPrivet: z.boolean(),
+    maxPlayers: z.number().int().min(2),
+    status: z.enum([ClubStatusEnum.ACTIVE, ClubStatusEnum.INACTIVE]),
+    location,
+  })
+  .partial();
+
+// השדות שקפטן רשאי לעדכן - את השאר מעדכן מנהל הקבוצה בלבד
+export const CLUB_CAPTAIN_UPDATABLE_FIELDS: (keyof UpdateClubDto)[] = [
+  "name",
+  "description",
+  "image",
+  "isPrivet",
+  "location",
+];
+
+export const clubListQuery = z.object({
+  search: z
+    .string()
+    .max(100)
+    .optional()
+    .meta({ description: "Search in name and description" }),
+  sportCategory: sportCategory.optional(),
+  city: z.string().optional(),
+  country: z.string().optional(),
+  status: z.enum(ClubStatusEnum).optional(),
+  visibility: z.enum(["public", "private"]).optional(),
+  hasFreeSpots: booleanQuery.optional(),
+  sort: z.enum(ClubSortEnum).optional(),
+  lat: numberQuery
+    .optional()
+    .meta({ description: "Origin for the nearest sort" }),
+  lng: numberQuery
+    .optional()
+    .meta({ description: "Origin for the nearest sort" }),
+  ...paginationQuery,
+});
+
+export const joinRequestSchema = z.strictObject({
+  role: clubRole.optional(),
+});
+
+export const removeMemberSchema = z.strictObject({
+  ban: z.boolean().optional(),
+});
+
+export const inviteUserSchema = z.strictObject({
+  role: clubRole.optional(),
+});
+
+export const createInviteCodeSchema = z.strictObject({
+  expiresInHours: z
+    .number()
+    .min(1)
+    .max(30 * 24)
+    .optional(),
+  maxUses: z.number().int().min(1).max(100).optional(),
+  role: clubRole.optional(),
+});
+
+export const clubIdParams = idParams("id");
+export const clubParams = idParams("clubId");
+export const clubMemberParams = idParams("clubId", "userId");
+export const inviteCodeParams = idParams("clubId").extend({
+  code: z.string().min(1).max(32),
+});
+export const joinByCodeParams = z.object({
+  code: z.string().min(1).max(32),
+});
+
+export type CreateClubDto = z.infer<typeof createClubSchema>;
+export type UpdateClubDto = z.infer<typeof updateClubSchema>;
@@ -0,0 +1,81 @@
+import { z } from "zod";
+import { AppError } from "../middleware/errorMiddleware";
+import { SportCategoryEnum } from "../types/enums";
+
+export const objectId = z
+  .string()
+  .regex(/^[0-9a-fA-F]{24}$/, "Must be a valid ID");
+
+/**
+ * Build a params schema where every param is an ObjectId
+ * @param names Names of the route params
+ * @returns Params schema
+ */
+export const idParams = <K extends string>(...names: K[]) =>
+  z.object(
+    Object.fromEntries(names.map((name) => [name, objectId])) as Record<
+      K,
+      typeof objectId
+    >
+  );
+
+// תאריך כמחרוזת - השירותים ממירים ל-Date בעצמם
+export const dateString = z
+  .string()
+  .refine((value) => !isNaN(Date.parse(value)), "Must be a valid date")
+  .meta({ format: "date-time" });
+
+// ערכי query מגיעים תמיד כמחרוזות
+export const numberQuery = z
+  .string()
+  .regex(/^-?\d+(\.\d+)?$/, "Must be a number");
+export const integerQuery = z
+  .string()
+  .regex(/^\d+$/, "Must be a non-negative integer");
+export const booleanQuery = z.enum(["true", "false"]);
+
+export const sportCategory = z.enum(SportCategoryEnum);
+
+export const paginationQuery = {
+  page: integerQuery.optional(),
+  limit: integerQuery.optional(),
+};
+
+export const latitude = z.number().min(-90).max(90);
+export const longitude = z.number().min(-180).max(180);
+
+export const nearQuerySchema = z.object({
+  lat: numberQuery.optional(),
+  lng: numberQuery.optional(),
+  radius: numberQuery.optional().meta({ description: "Radius in km" }),
+  sportCategory: sportCategory.optional(),
+  limit: integerQuery.optional(),
+});
+
+/**
+ * Make sure an update only touches the fields allowed for the updater's role.
+ * Every disallowed field is reported in a single 400 response
+ * @param updateData Validated update data
+ * @param allowedFields Fields the updater may change
+ * @param role Role name used in the error messages
+ */
+export const assertUpdatableFields = (
+  updateData: object,
+  allowedFields: readonly string[],
+  role: string
+) => {
+  const deniedFields = Object.keys(updateData).filter(
+    (field) => !allowedFields.includes(field)
+  );
+
+  if (deniedFields.length) {
+    throw AppError.badRequest(
+      "Invalid request data",
+      deniedFields.map((field) => ({
+        location: "body" as const,
+        field,
+        message: `Cannot be updated by ${role}`,
+      }))
+    );
+  }
+};
@@ -0,0 +1,111 @@
+import { z } from "zod";
+import { EventStatusEnum, RecurrenceFrequencyEnum } from "../types/enums";
+import {
+  dateString,
+  idParams,
+  latitude,
+  longitude,
+  nearQuerySchema,
+  objectId,
+} from "./common";
+
+const location = z.strictObject({
+  address: z.string().trim().min(1),
+  lat: latitude,
+  lng: longitude.optional(),
+});
+
+const timeWindow = z.strictObject({
+  start: dateString,
+  end: dateString,
+});
+
+// שדות האירוע שנקבעים על ידי המנהל/קפטן - השאר מנוהלים על ידי המערכת
+const eventFields = {
+  name: z.string().trim().min(1).max(50),
+  description: z.string().trim().min(1).max(1000),
+  fieldId: objectId,
+  location,
+  image: z.string().optional(),
+  maxParticipants: z.number().int().min(1).optional(),
+  minParticipantsToStart: z.number().int().min(1).optional(),
+  cancelCutoffMinutes: z.number().int().min(0).optional(),
+  cost: z.number().min(0).optional(),
+};
+
+export const createEventSchema = z.strictObject({
+  clubId: objectId,
+  ...eventFields,
+  time: timeWindow,
+});
+
+export const updateEventSchema = z
+  .strictObject({
+    ...eventFields,
+    time: timeWindow.partial(),
+  })
+  .partial();
+
+const recurrence = z.strictObject({
+  frequency: z.enum(RecurrenceFrequencyEnum),
+  weekdays: z.array(z.number().int().min(0).max(6)).optional(),
+  interval: z.number().int().min(1).optional(),
+  until: dateString.optional(),
+  count: z.number().int().min(1).optional(),
+});
+
+// ברירת המחדל היא עדכון המופע הנוכחי בלבד
+const seriesScope = z.enum(["this", "following"]).default("this");
+
+export const createSeriesSchema = z.strictObject({
+  clubId: objectId,
+  ...eventFields,
+  time: timeWindow,
+  recurrence,
+});
+
+export const updateOccurrenceSchema = updateEventSchema.extend({
+  scope: seriesScope,
+});
+
+export const cancelOccurrenceSchema = z.strictObject({
+  scope: seriesScope,
+  reason: z.string().trim().max(200).optional(),
+});
+
+export const changeStatusSchema = z.strictObject({
+  status: z.enum(EventStatusEnum),
+  reason: z.string().trim().max(200).optional(),
+});
+
+export const generateTeamsSchema = z.strictObject({
+  teamsCount: z.number().int().min(2).max(10).optional(),
+  shuffle: z.boolean().optional(),
+  preview: z.boolean().optional(),
+  ratingSource: z.enum(["skill", "elo"]).optional(),
+});
+
+export const lockTeamsSchema = z.strictObject({
+  locked: z.boolean().optional(),
+});
+
+export const swapPlayersSchema = z.strictObject({
+  firstPlayerId: objectId,
+  secondPlayerId: objectId,
+});
+
+export const upcomingEventsQuery = z.object({
+  clubId: objectId.optional(),
+});
+
+export const nearbyEventsQuery = nearQuerySchema;
+
+export const eventIdParams = idParams("id");
+export const eventParams = idParams("eventId");
+export const seriesParams = idParams("seriesId");
+export const clubEventsParams = idParams("clubId");
+
+export type CreateEventDto = z.infer<typeof createEventSchema>;
+export type UpdateEventDto = z.infer<typeof updateEventSchema>;
+export type CreateSeriesDto = z.infer<typeof createSeriesSchema>;
+export type RecurrenceDto = z.infer<typeof recurrence>;
@@ -0,0 +1,59 @@
+import { z } from "zod";
+import { FieldSurfaceEnum } from "../types/enums";
+import {
+  booleanQuery,
+  idParams,
+  latitude,
+  longitude,
+  sportCategory,
+} from "./common";
+
+const timeOfDay = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Must be in HH:mm format");
+
+export const createFieldSchema = z.strictObject({
+  name: z.string().trim().min(1).max(50),
+  description: z.string().trim().max(500).optional(),
+  location: z.strictObject({
+    country: z.string().trim().optional(),
+    city: z.string().trim().optional(),
+    address: z.string().trim().min(1),
+    lat: latitude,
+    lng: longitude,
+  }),
+  surface: z.enum(FieldSurfaceEnum).optional(),
+  isIndoor: z.boolean().optional(),
+  sportCategories: z.array(sportCategory).min(1),
+  capacity: z.number().int().min(2).optional(),
+  openingHours: z
+    .array(
+      z.strictObject({
+        day: z.number().int().min(0).max(6),
+        open: timeOfDay,
+        close: timeOfDay,
+      })
+    )
+    .optional(),
+  pricePerHour: z.number().min(0).optional(),
+  image: z.string().optional(),
+});
+
+// היוצר והנעילה של המגרש אינם ניתנים לעדכון
+export const updateFieldSchema = createFieldSchema.partial();
+
+export const fieldsQuery = z.object({
+  sportCategory: sportCategory.optional(),
+  city: z.string().optional(),
+  isIndoor: booleanQuery.optional(),
+});
+
+export const availabilityQuery = z.object({
+  date: z.iso.date().optional(),
+});
+
+export const fieldIdParams = idParams("id");
+export const availabilityParams = idParams("fieldId");
+
+export type CreateFieldDto = z.infer<typeof createFieldSchema>;
+export type UpdateFieldDto = z.infer<typeof updateFieldSchema>;
@@ -0,0 +1,18 @@
+import { z } from "zod";
+import { LeaderboardMetricEnum, LeaderboardPeriodEnum } from "../types/enums";
+import {
+  idParams,
+  integerQuery,
+  paginationQuery,
+  sportCategory,
+} from "./common";
+
+export const leaderboardQuery = z.object({
+  metric: z.enum(LeaderboardMetricEnum).optional(),
+  period: z.enum(LeaderboardPeriodEnum).optional(),
+  minMatches: integerQuery.optional(),
+  ...paginationQuery,
+});
+
+export const clubLeaderboardParams = idParams("clubId");
+export const sportLeaderboardParams = z.object({ sportCategory });
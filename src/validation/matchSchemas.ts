@@ -0,0 +1,27 @@
+import { z } from "zod";
+import { idParams, objectId } from "./common";
+
+const teamName = z.string().trim().min(1);
+
+export const createMatchSchema = z.strictObject({
+  eventId: objectId,
+  teams: z.array(teamName).length(2).optional(),
+});
+
+export const goalSchema = z.strictObject({
+  scorer: objectId,
+  assist: objectId.optional(),
+  team: teamName,
+  minute: z.number().min(0).optional(),
+});
+
+export const playerPointsSchema = z.strictObject({
+  playerId: objectId,
+  team: teamName,
+  points: z.number().int().min(0),
+});
+
+export const matchIdParams = idParams("id");
+export const matchParams = idParams("matchId");
+export const goalParams = idParams("matchId", "goalId");
+export const eventMatchesParams = idParams("eventId");
@@ -0,0 +1,15 @@
+import { z } from "zod";
+import { idParams, objectId } from "./common";
+
+export const submitRatingsSchema = z.strictObject({
+  ratings: z
+    .array(
+      z.strictObject({
+        userId: objectId,
+        rating: z.number().min(1).max(10),
+      })
+    )
+    .min(1),
+});
+
+export const eventRatingParams = idParams("eventId");
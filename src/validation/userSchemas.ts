@@ -0,0 +1,116 @@
+import { z } from "zod";
+import {
+  AccountStatusEnum,
+  basketballPositionsEnum,
+  footballPositionsEnum,
+  StrongSideEnum,
+} from "../types/enums";
+import {
+  idParams,
+  integerQuery,
+  latitude,
+  longitude,
+  sportCategory,
+} from "./common";
+
+const password = z.string().min(6);
+
+const phone = z.strictObject({
+  prefix: z.string().trim().min(1).max(5),
+  number: z
+    .string()
+    .trim()
+    .regex(/^\d{1,10}$/, "Phone number must contain 1-10 digits"),
+});
+
+// שדות הפרופיל שהמשתמש רשאי לעדכן בעצמו
+const profileFields = {
+  firstName: z.string().trim().min(1).max(12),
+  lastName: z.string().trim().min(1).max(12),
+  image: z.string(),
+  positions: z.array(
+    z.enum([
+      ...Object.values(footballPositionsEnum),
+      ...Object.values(basketballPositionsEnum),
+    ])
+  ),
+  sportCategory,
+  yearOfBirth: z.number().int().min(1930).max(new Date().getFullYear()),
+  cm: z.number().min(100).max(300),
+  kg: z.number().min(30).max(200),
+  strongSide: z.enum(StrongSideEnum),
+  phone,
+  country: z.string().trim().max(30),
+  city: z.string().trim().max(30),
+  location: z.strictObject({ lat: latitude, lng: longitude }),
+};
+
+export const registerSchema = z.strictObject({
+  firstName: profileFields.firstName,
+  lastName: profileFields.lastName,
+  phone,
+  email: z.email(),
+  password,
+  sportCategory,
+  yearOfBirth: profileFields.yearOfBirth,
+  country: profileFields.country.optional(),
+  city: profileFields.city.optional(),
+});
+
+export const loginSchema = z.strictObject({
+  email: z.email(),
+  password: z.string().min(1),
+});
+
+// תפקיד, מנוי, סיסמה, סטטוס וסטטיסטיקות אינם ניתנים לעדכון דרך הפרופיל
+export const updateUserSchema = z.strictObject(profileFields).partial();
+
+export const refreshTokenSchema = z.strictObject({
+  refreshToken: z.string().min(1),
+});
+
+export const verifyEmailSchema = z.strictObject({
+  token: z.string().min(1),
+});
+
+export const forgotPasswordSchema = z.strictObject({
+  email: z.email(),
+});
+
+export const resetPasswordSchema = z.strictObject({
+  token: z.string().min(1),
+  password,
+});
+
+export const changePasswordSchema = z.strictObject({
+  currentPassword: z.string().min(1),
+  newPassword: password,
+});
+
+export const accountStatusSchema = z.strictObject({
+  status: z.enum([AccountStatusEnum.SUSPENDED, AccountStatusEnum.ACTIVE]),
+  reason: z.string().trim().min(1).max(500),
+});
+
+export const auditLogQuery = z.object({
+  limit: integerQuery.optional(),
+});
+
+export const userIdParams = idParams("id");
+export const favoriteFieldParams = idParams("fieldId");
+
+export const getUserQuery = z.object({
+  historyLimit: integerQuery.optional(),
+});
+
+export const ratingHistoryQuery = z.object({
+  sportCategory,
+  limit: integerQuery.optional(),
+});
+
+export const subscriptionParams = z.object({
+  subscriptionId: z.enum(["silver", "gold", "premium"]),
+});
+
+export type RegisterUserDto = z.infer<typeof registerSchema>;
+export type UpdateUserDto = z.infer<typeof updateUserSchema>;